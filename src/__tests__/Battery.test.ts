@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+import { getBattery, parseMacPowerInfo } from '../battery';
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+test('getBattery', async () => {
+  const power = await getBattery();
+  console.log(power); // TODO REMOVE
+  expect(Array.isArray(power.batteries)).toBe(true);
+  for (const battery of power.batteries) {
+    expect(battery.percentage).toBeGreaterThanOrEqual(0);
+    expect(battery.percentage).toBeLessThanOrEqual(1);
+  }
+});
+
+test('parseMacPowerInfo', () => {
+  const power = parseMacPowerInfo(
+    readFixture('macos-pmset-batt.txt'),
+    readFixture('macos-ioreg-applesmartbattery.txt'),
+  );
+  expect(power.acConnected).toBe(false);
+  expect(power.batteries).toHaveLength(1);
+  const [battery] = power.batteries;
+  expect(battery).toMatchObject({
+    name: 'InternalBattery-0',
+    percentage: 0.72,
+    state: 'discharging',
+    timeToEmpty: (5 * 60 + 14) * 60,
+    voltage: 12.41,
+    cycleCount: 187,
+    serial: 'F8Y1234567ABCDEFG',
+    model: 'bq20z451',
+  });
+  // ioreg prints the discharge current of -1042 mA as unsigned 64-bit number
+  expect(battery.power).toBeCloseTo(1.042 * 12.41);
+  expect(battery.fullCapacity).toBeCloseTo(5.384 * 12.41);
+  expect(battery.designCapacity).toBeCloseTo(6.075 * 12.41);
+});
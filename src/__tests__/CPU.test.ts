@@ -1,8 +1,18 @@
-import { getCpuInfo, stopCpuUtilizationComputation } from '../cpu';
+import { getCpuInfo, getCpuTopology, stopCpuUtilizationComputation } from '../cpu';
 
 test('getCpuInfo', async () => {
   const cpuInfo = await getCpuInfo();
   console.log('CPU Info:', cpuInfo); // TODO REMOVE
+  expect(cpuInfo.topology).toBeUndefined();
+  expect((await getCpuInfo(false, true)).topology?.threads).toBeGreaterThan(0);
+});
+
+test('getCpuTopology', async () => {
+  const topology = await getCpuTopology();
+  console.log('CPU Topology:', topology); // TODO REMOVE
+  expect(topology.threads).toBeGreaterThan(0);
+  expect(topology.physicalCores).toBeLessThanOrEqual(topology.threads);
+  expect(topology.cores.length).toBe(topology.threads);
 });
 
 afterAll(() => {
@@ -0,0 +1,26 @@
+import os from 'os';
+import { getCgroupInfo } from '../cgroup';
+import { getCpuInfo, stopCpuUtilizationComputation } from '../cpu';
+import { getMemoryInfo } from '../memory';
+
+test('getCgroupInfo', async () => {
+  const cgroup = await getCgroupInfo();
+  console.log(cgroup); // TODO REMOVE
+  if (process.platform !== 'linux') expect(cgroup).toBeNull();
+});
+
+test('getCpuInfo(containerScoped)', async () => {
+  const cpuInfo = await getCpuInfo(true);
+  expect(cpuInfo.coreCount).toBeGreaterThan(0);
+  expect(cpuInfo.coreCount).toBeLessThanOrEqual(os.cpus().length);
+});
+
+test('getMemoryInfo(containerScoped)', async () => {
+  const memory = await getMemoryInfo(false, true);
+  console.log(memory); // TODO REMOVE
+  expect(memory.size).toBeLessThanOrEqual(os.totalmem());
+});
+
+afterAll(() => {
+  stopCpuUtilizationComputation();
+});
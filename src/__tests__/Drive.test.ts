@@ -1,6 +1,26 @@
-import { getDrives } from '../drive';
+import { getDriveIOUtilization, getDrives, getPhysicalDisks, stopDriveIOUtilizationComputation } from '../drive';
 
 test('getDrives', async () => {
   const drives = await getDrives();
   console.log(drives); // TODO REMOVE
+  expect(drives.every((drive) => drive.io === undefined)).toBe(true);
+});
+
+test('getDrives with I/O', async () => {
+  const drives = await getDrives(false, true);
+  console.log(drives); // TODO REMOVE
+});
+
+test('getDriveIOUtilization', async () => {
+  const utilization = await getDriveIOUtilization();
+  console.log(utilization); // TODO REMOVE
+});
+
+test('getPhysicalDisks', async () => {
+  const disks = await getPhysicalDisks(true);
+  console.log(disks); // TODO REMOVE
+});
+
+afterAll(() => {
+  stopDriveIOUtilizationComputation();
 });
@@ -1,6 +1,128 @@
-import { getGPUs } from '../gpu';
+import fs from 'fs';
+import path from 'path';
+import {
+  applyNvidiaSmiValues,
+  getGPUProcesses,
+  getGPUs,
+  getSampledGPUUtilization,
+  GPU,
+  GPU_SAMPLING_INTERVAL,
+  NVIDIA_SMI_EXTENDED_FIELDS,
+  parseAmdDpmClocks,
+  parseIntelGpuTop,
+  parseNvidiaSmiLine,
+  parseNvidiaSmiMigDevices,
+  startGPUSampling,
+  stopGPUSampling,
+} from '../gpu';
+import { sleep } from '../utils';
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
 
 test('getGPUs', async () => {
   const gpus = await getGPUs();
   console.log(gpus); // TODO REMOVE
+  const busIds = gpus.filter((gpu) => gpu.busId).map((gpu) => gpu.busId);
+  expect(new Set(busIds).size).toBe(busIds.length);
+});
+
+test('getGPUProcesses', async () => {
+  const gpus = await getGPUs();
+  const processes = await getGPUProcesses(gpus);
+  console.log(processes); // TODO REMOVE
+  for (const proc of processes) {
+    expect(proc.pid).toBeGreaterThan(0);
+    if (proc.gpu) expect(gpus).toContain(proc.gpu);
+  }
+});
+
+test('startGPUSampling', async () => {
+  startGPUSampling(500);
+  await sleep(1500);
+  const utilization = getSampledGPUUtilization();
+  console.log(utilization); // TODO REMOVE
+  expect(GPU_SAMPLING_INTERVAL).toBe(500);
+  if (utilization) expect((await getGPUs()).length).toBeGreaterThanOrEqual(utilization.length);
+  for (const sample of utilization ?? []) expect(sample.utilization).toBeDefined(); // dense, no holes
+  stopGPUSampling();
+  expect(getSampledGPUUtilization()).toBeNull();
+});
+
+test('parseAmdDpmClocks', () => {
+  expect(parseAmdDpmClocks(readFixture('linux-amdgpu-pp-dpm-sclk.txt'))).toEqual({ current: 1800, max: 2615 });
+  expect(parseAmdDpmClocks('')).toEqual({});
+});
+
+test('parseIntelGpuTop', () => {
+  // the last sample is incomplete as intel_gpu_top has been interrupted
+  const sample = parseIntelGpuTop(readFixture('linux-intel-gpu-top.txt'));
+  expect(sample.frequency.actual).toBe(1099.5);
+  expect(sample.power.GPU).toBe(2.503);
+  expect(sample.engines['Render/3D'].busy).toBe(45.678);
+  expect(parseIntelGpuTop('intel_gpu_top: Failed to initialize PMU!')).toBeNull();
+});
+
+test('parseNvidiaSmiLine', () => {
+  const [a100, rtx] = readFixture('linux-nvidia-smi-query-gpu.txt')
+    .trim()
+    .split('\n')
+    .map((line) => parseNvidiaSmiLine(line, NVIDIA_SMI_EXTENDED_FIELDS));
+  expect(a100['pci.bus_id']).toBe('00000000:07:00.0');
+  expect(a100['fan.speed']).toBeUndefined(); // [N/A]
+  expect(rtx['temperature.memory']).toBeUndefined();
+  expect(rtx['ecc.errors.corrected.volatile.total']).toBeUndefined();
+  expect(rtx['mig.mode.current']).toBeUndefined();
+  expect(rtx.virtualization_mode).toBe('None');
+});
+
+test('applyNvidiaSmiValues', () => {
+  const [a100, rtx] = readFixture('linux-nvidia-smi-query-gpu.txt')
+    .trim()
+    .split('\n')
+    .map((line) => {
+      const gpu: GPU = { id: '', name: '', status: 'ok' };
+      applyNvidiaSmiValues(gpu, parseNvidiaSmiLine(line, NVIDIA_SMI_EXTENDED_FIELDS));
+      return gpu;
+    });
+  expect(a100).toMatchObject({
+    busId: '07:00.0',
+    uuid: 'GPU-1a2b3c4d-0000-1111-2222-333344445555',
+    index: 0,
+    displayAttached: false,
+    memory: 40960 * 1024 * 1024,
+    powerLimit: 400,
+    computeMode: 'default',
+    migMode: true,
+    virtualizationMode: 'pass-through',
+    pcie: { generation: 4, maxGeneration: 4, width: 16, maxWidth: 16 },
+    eccErrors: { corrected: 0, uncorrected: 0 },
+    clockMaxSpeed: { graphics: 1410, memory: 1215, sm: 1410 },
+  });
+  expect(a100.utilization).toMatchObject({
+    processing: 0.87,
+    memoryTemperature: 71,
+    performanceState: 'P0',
+    throttleReasons: ['sw_power_cap', 'hw_thermal_slowdown'], // 0x44
+  });
+  expect(a100.utilization?.fanSpeed).toBeUndefined();
+
+  expect(rtx.displayActive).toBe(true);
+  expect(rtx.migMode).toBeUndefined();
+  expect(rtx.eccErrors).toBeUndefined();
+  expect(rtx.utilization?.fanSpeed).toBe(0.3);
+  expect(rtx.utilization?.memoryTemperature).toBeUndefined();
+  expect(rtx.utilization?.throttleReasons).toEqual(['gpu_idle']);
+});
+
+test('parseNvidiaSmiMigDevices', () => {
+  expect(parseNvidiaSmiMigDevices(readFixture('linux-nvidia-smi-list.txt'))).toEqual({
+    'GPU-1a2b3c4d-0000-1111-2222-333344445555': [
+      { index: 0, profile: '3g.20gb', uuid: 'MIG-0f1e2d3c-aaaa-5b6a-8c7d-112233445566' },
+      { index: 1, profile: '1g.5gb', uuid: 'MIG-7a8b9c0d-bbbb-5e4f-9a8b-665544332211' },
+    ],
+  });
+});
+
+afterAll(() => {
+  stopGPUSampling();
 });
@@ -0,0 +1,10 @@
+import { getSystemHardware } from '../hardware';
+
+test('getSystemHardware', async () => {
+  const hardware = await getSystemHardware();
+  console.log(hardware); // TODO REMOVE
+  expect(hardware.system).toBeDefined();
+  expect(hardware.baseboard).toBeDefined();
+  expect(hardware.chassis).toBeDefined();
+  expect(hardware.bios).toBeDefined();
+});
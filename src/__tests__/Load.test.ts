@@ -0,0 +1,7 @@
+import { getLoadInfo } from '../load';
+
+test('getLoadInfo', async () => {
+  const loadInfo = await getLoadInfo();
+  console.log(loadInfo); // TODO REMOVE
+  expect(loadInfo.average.oneMinute).toBeGreaterThanOrEqual(0);
+});
@@ -1,6 +1,15 @@
-import { getMemoryInfo } from '../memory';
+import os from 'os';
+import { getMemoryInfo, getMemoryUtilization } from '../memory';
 
 test('getMemoryInfo', async () => {
   const memory = await getMemoryInfo();
   console.log(memory); // TODO REMOVE
 });
+
+test('getMemoryUtilization(basedOnAvailable)', async () => {
+  const utilization = await getMemoryUtilization(true);
+  console.log(utilization); // TODO REMOVE
+  expect(utilization.percentage).toBeGreaterThanOrEqual(0);
+  expect(utilization.percentage).toBeLessThanOrEqual(1);
+  if (utilization.available !== undefined) expect(utilization.used).toBe(os.totalmem() - utilization.available);
+});
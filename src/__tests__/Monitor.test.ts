@@ -0,0 +1,55 @@
+import { SystemMonitor, SystemMonitorThresholdEvent } from '../monitor';
+
+test('SystemMonitor', async () => {
+  const monitor = new SystemMonitor({
+    interval: 100,
+    metrics: ['cpu'],
+    rules: [{ name: 'memory-used', metric: 'memory', threshold: 0, value: (memory) => memory.used }],
+  });
+  const thresholdEvent = new Promise<SystemMonitorThresholdEvent>((resolve) => monitor.on('threshold', resolve));
+  const cpuSample = new Promise((resolve) => monitor.on('cpu', resolve));
+  monitor.start();
+  try {
+    const event = await thresholdEvent;
+    console.log(event); // TODO REMOVE
+    expect(event.rule).toBe('memory-used');
+    expect(event.state).toBe('tripped');
+    expect(await cpuSample).toBeDefined();
+  } finally {
+    monitor.stop();
+  }
+  expect(monitor.isRunning).toBe(false);
+});
+
+test('SystemMonitor error', async () => {
+  let samples = 0;
+  const monitor = new SystemMonitor({
+    interval: 50,
+    metrics: ['memory'],
+    rules: [
+      {
+        name: 'broken',
+        metric: 'memory',
+        threshold: 0,
+        value: () => {
+          throw new Error('broken rule');
+        },
+      },
+    ],
+  });
+  const errors: unknown[] = [];
+  monitor.on('error', (err) => errors.push(err));
+  const secondSample = new Promise((resolve) =>
+    monitor.on('memory', () => {
+      if (++samples === 2) resolve(samples);
+    }),
+  );
+  monitor.start();
+  try {
+    await secondSample;
+    expect(errors.length).toBeGreaterThan(0);
+    expect((errors[0] as Error).message).toBe('broken rule');
+  } finally {
+    monitor.stop();
+  }
+});
@@ -6,14 +6,26 @@ import {
   canConnect,
   isPortListendedOn,
   getPrimaryIp,
+  parseIfconfigInterfaces,
+  parseNetstatInterfaceStatistics,
+  parseNetworkHardwarePorts,
 } from '../net';
+import fs from 'fs';
 import net from 'net';
+import path from 'path';
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
 
 test('getNetworkInterfaces', async () => {
   const nics = await getNetworkInterfaces();
   console.log(JSON.stringify(nics, null, 2));
   expect(nics).toBeDefined();
   expect(nics.length).toBeGreaterThan(0);
+  for (const nic of nics) {
+    if (nic.throughput) expect(nic.throughput.receiveBytes).toBeGreaterThanOrEqual(0);
+    if (process.platform === 'linux') expect(nic.statistics).toBeDefined();
+    expect(nic.wireless).toBeUndefined(); // only if requested
+  }
 }, 10000);
 
 test('getPrimaryIp()', async () => {
@@ -52,6 +64,45 @@ test('isPortListenedOn not affecting canConnect', async () => {
   }
 });
 
+test('parseNetstatInterfaceStatistics', () => {
+  const statistics = parseNetstatInterfaceStatistics(readFixture('macos-netstat-ibdn.txt'));
+  expect(Object.keys(statistics)).toEqual(['lo0', 'gif0', 'en0', 'en5', 'utun0']);
+  expect(statistics.en0).toEqual({
+    receivedBytes: 12345678901,
+    transmittedBytes: 987654321,
+    receivedPackets: 9876543,
+    transmittedPackets: 5432109,
+    receiveErrors: 12,
+    transmitErrors: 3,
+    receiveDrops: 0,
+    transmitDrops: 17,
+    collisions: 0,
+  });
+  expect(statistics.utun0.receivedBytes).toBe(2960);
+  expect(parseNetstatInterfaceStatistics('')).toEqual({});
+});
+
+test('parseIfconfigInterfaces', () => {
+  const interfaces = parseIfconfigInterfaces(readFixture('macos-ifconfig.txt'));
+  expect(Object.keys(interfaces)).toEqual(['lo0', 'gif0', 'en0', 'en5', 'en6', 'bridge0', 'utun0']);
+  expect(interfaces.lo0).toEqual({ flags: ['UP', 'LOOPBACK', 'RUNNING', 'MULTICAST'], mtu: 16384 });
+  expect(interfaces.en0.active).toBe(true);
+  expect(interfaces.en0.speed).toBeUndefined();
+  expect(interfaces.en5.speed).toBe(1e9);
+  expect(interfaces.en6).toMatchObject({ active: false, speed: 1e10 });
+  expect(interfaces.en6.flags).not.toContain('UP');
+  expect(interfaces.bridge0.active).toBe(false);
+});
+
+test('parseNetworkHardwarePorts', () => {
+  expect(parseNetworkHardwarePorts(readFixture('macos-networksetup-hardwareports.txt'))).toEqual({
+    en0: 'Wi-Fi',
+    en5: 'USB 10/100/1000 LAN',
+    en6: 'Thunderbolt 1',
+    bridge0: 'Thunderbolt Bridge',
+  });
+});
+
 /*
 test('canConnect vs isPortListenedOn', async () => {
   const iterations = 50;
@@ -1,6 +1,23 @@
-import { getOSInfo } from '../os';
+import { getOSInfo, getVirtualizationInfo } from '../os';
 
 test('getOSInfo', async () => {
   const osInfo = await getOSInfo();
   console.log(osInfo); // TODO REMOVE
+  expect(osInfo.kernel?.release).toBe(osInfo.version);
+  expect(osInfo.virtualization).toBeUndefined();
+});
+
+test('getOSInfo(includeDetails)', async () => {
+  const osInfo = await getOSInfo(true);
+  console.log(osInfo); // TODO REMOVE
+  expect(osInfo.virtualization).toBeDefined();
+  if (osInfo.distribution) expect(osInfo.distribution.id).toBeTruthy();
+  expect((await getOSInfo(true)).virtualization).toBe(osInfo.virtualization); // cached
+});
+
+test('getVirtualizationInfo', async () => {
+  const virtualization = await getVirtualizationInfo();
+  console.log(virtualization); // TODO REMOVE
+  if (virtualization.containerRuntime || virtualization.kubernetes) expect(virtualization.container).toBe(true);
+  if (virtualization.hypervisor) expect(virtualization.virtualMachine).toBe(true);
 });
@@ -0,0 +1,12 @@
+import { getProcesses, stopProcessUtilizationComputation } from '../process';
+
+test('getProcesses', async () => {
+  const processes = await getProcesses();
+  console.log(processes.slice(0, 10)); // TODO REMOVE
+  expect(processes.length).toBeGreaterThan(0);
+  expect(processes.find((proc) => proc.pid === process.pid)).toBeDefined();
+});
+
+afterAll(() => {
+  stopProcessUtilizationComputation();
+});
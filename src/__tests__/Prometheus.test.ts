@@ -0,0 +1,81 @@
+import { createMetricsServer, toPrometheus } from '../prometheus';
+
+test('toPrometheus', () => {
+  const output = toPrometheus({
+    timestamp: Date.now(),
+    cpu: {
+      name: 'CPU',
+      coreCount: 2,
+      architecture: 'x64',
+      endian: 'LE',
+      speed: 3000,
+      utilization: {
+        overall: 0.5,
+        cores: [0.25, 0.75],
+        times: {
+          overall: { user: 0.4, nice: 0, system: 0.1, irq: 0, softirq: 0, iowait: 0, steal: 0, idle: 0.5 },
+          cores: [],
+        },
+      },
+    },
+    drives: [
+      {
+        filesystem: '/dev/sda1',
+        mount: '/mnt/"data"',
+        type: 'ext4',
+        total: 100,
+        utilization: { free: 40, used: 60, percentage: 0.6 },
+      },
+    ],
+    networkInterfaces: [
+      {
+        name: 'wlan0',
+        addresses: [],
+        primary: false,
+        physical: true,
+        status: { operational: 'up', admin: true, cable: false },
+        throughput: { receiveBytes: 1500, transmitBytes: 500, receivePackets: 3, transmitPackets: 1 },
+        statistics: {
+          receivedBytes: 10000,
+          transmittedBytes: 2000,
+          receivedPackets: 20,
+          transmittedPackets: 10,
+          receiveErrors: 1,
+          transmitErrors: 0,
+          receiveDrops: 2,
+          transmitDrops: 0,
+        },
+      },
+    ],
+    temperatures: { cpu: 45 },
+    errors: { gpus: 'failed' },
+  });
+  console.log(output); // TODO REMOVE
+  expect(output).toContain('# TYPE lup_system_cpu_utilization_ratio gauge\nlup_system_cpu_utilization_ratio 0.5\n');
+  expect(output).toContain('lup_system_cpu_core_utilization_ratio{core="1"} 0.75\n');
+  expect(output).toContain('lup_system_cpu_time_ratio{mode="user"} 0.4\n');
+  expect(output).toContain(
+    'lup_system_drive_used_bytes{mount="/mnt/\\"data\\"",filesystem="/dev/sda1",type="ext4"} 60\n',
+  );
+  expect(output).toContain('lup_system_network_receive_bytes_per_second{nic="wlan0"} 1500\n');
+  expect(output).toContain(
+    '# TYPE lup_system_network_receive_drops_total counter\nlup_system_network_receive_drops_total{nic="wlan0"} 2\n',
+  );
+  expect(output).not.toContain('network_collisions_total');
+  expect(output).not.toContain('network_receive_utilization_ratio');
+  expect(output).toContain('lup_system_temperature_celsius{sensor="cpu"} 45\n');
+  expect(output).not.toContain('sensor="gpu"');
+  expect(output).toContain('lup_system_snapshot_error{section="gpus"} 1\n');
+});
+
+test('createMetricsServer', async () => {
+  const server = await createMetricsServer({ port: 12347, host: '127.0.0.1', sections: ['memory', 'os'] });
+  try {
+    const res = await fetch('http://127.0.0.1:12347/metrics');
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('lup_system_memory_size_bytes');
+    expect((await fetch('http://127.0.0.1:12347/')).status).toBe(404);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
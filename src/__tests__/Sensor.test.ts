@@ -0,0 +1,10 @@
+import { getSensors } from '../sensor';
+
+test('getSensors', async () => {
+  const sensors = await getSensors();
+  console.log(sensors); // TODO REMOVE
+  for (const sensor of sensors) expect(Number.isFinite(sensor.value)).toBe(true);
+
+  const temperatures = await getSensors(['temperature']);
+  expect(temperatures.every((sensor) => sensor.type === 'temperature')).toBe(true);
+});
@@ -0,0 +1,26 @@
+import { stopCpuUtilizationComputation } from '../cpu';
+import { stopDriveIOUtilizationComputation } from '../drive';
+import { stopNetworkUtilizationComputation } from '../net';
+import { getSystemSnapshot } from '../snapshot';
+
+test('getSystemSnapshot', async () => {
+  const snapshot = await getSystemSnapshot();
+  console.log(JSON.stringify(snapshot, null, 2)); // TODO REMOVE
+  expect(snapshot.timestamp).toBeLessThanOrEqual(Date.now());
+  expect(snapshot.cpu).toBeDefined();
+  expect(snapshot.memory).toBeDefined();
+  expect(JSON.parse(JSON.stringify(snapshot)).timestamp).toBe(snapshot.timestamp);
+}, 10000);
+
+test('getSystemSnapshot(sections)', async () => {
+  const snapshot = await getSystemSnapshot(['os']);
+  expect(snapshot.os).toBeDefined();
+  expect(snapshot.cpu).toBeUndefined();
+  expect(snapshot.gpus).toBeUndefined();
+});
+
+afterAll(() => {
+  stopCpuUtilizationComputation();
+  stopDriveIOUtilizationComputation();
+  stopNetworkUtilizationComputation();
+});
@@ -1,6 +1,48 @@
-import { getTemperatures } from '../temperature';
+import fs from 'fs';
+import path from 'path';
+import { getTemperatures, getTemperatureSensors, parseHardwareMonitorSensors } from '../temperature';
 
 test('getTemperatures', async () => {
   const temperatures = await getTemperatures();
   console.log(temperatures); // TODO REMOVE
 });
+
+test('getTemperatureSensors', async () => {
+  const sensors = await getTemperatureSensors();
+  console.log(sensors); // TODO REMOVE
+  for (const sensor of sensors) expect(Number.isFinite(sensor.value)).toBe(true);
+  const ids = sensors.map((sensor) => sensor.source + ':' + sensor.id);
+  expect((await getTemperatureSensors()).map((sensor) => sensor.source + ':' + sensor.id)).toEqual(ids);
+});
+
+test('parseHardwareMonitorSensors', () => {
+  const output = fs.readFileSync(path.join(__dirname, 'fixtures', 'librehardwaremonitor-sensors.json'), 'utf8');
+  const sensors = parseHardwareMonitorSensors(output, 'librehardwaremonitor');
+  const byCategory = (category: string) => sensors.filter((sensor) => sensor.category === category);
+  expect(byCategory('cpuCore').map((sensor) => sensor.label)).toEqual([
+    'CPU Core #1',
+    'CPU Core #2',
+    'CPU Core #3',
+    'CPU Core #11',
+  ]);
+  expect(byCategory('cpuSocket').map((sensor) => sensor.value)).toEqual([47]);
+  expect(byCategory('gpu').map((sensor) => sensor.value)).toEqual([52]);
+  expect(byCategory('gpuMemory').map((sensor) => sensor.value)).toEqual([60]);
+  expect(byCategory('drive').map((sensor) => sensor.value)).toEqual([31, 38]);
+  expect(byCategory('motherboard').map((sensor) => sensor.label)).toEqual(['Motherboard', 'CPU']);
+  expect(sensors.find((sensor) => sensor.label === 'Core Max')?.category).toBe('other');
+  expect(sensors.every((sensor) => sensor.source === 'librehardwaremonitor')).toBe(true);
+  expect(sensors).toHaveLength(15); // reading without value is skipped
+
+  const single = fs.readFileSync(path.join(__dirname, 'fixtures', 'openhardwaremonitor-sensors.json'), 'utf8');
+  expect(parseHardwareMonitorSensors(single, 'openhardwaremonitor')).toEqual([
+    {
+      source: 'openhardwaremonitor',
+      id: '/amdcpu/0/temperature/0',
+      label: 'CPU Package',
+      value: 55.25,
+      category: 'cpuSocket',
+    },
+  ]);
+  expect(parseHardwareMonitorSensors('', 'librehardwaremonitor')).toEqual([]);
+});
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  getWirelessInfo,
+  parseIwLink,
+  parseNetshWlanInterfaces,
+  parseNetshWlanNetworks,
+  parseNmcliWifiNetworks,
+  parseProcNetWireless,
+  scanWifiNetworks,
+} from '../wifi';
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+test('getWirelessInfo', async () => {
+  const wireless = await getWirelessInfo();
+  console.log(wireless); // TODO REMOVE
+  for (const info of Object.values(wireless)) {
+    if (info.quality !== undefined) expect(info.quality).toBeLessThanOrEqual(1);
+  }
+});
+
+test('scanWifiNetworks', async () => {
+  const networks = await scanWifiNetworks();
+  console.log(networks); // TODO REMOVE
+  expect(Array.isArray(networks)).toBe(true);
+});
+
+test('parseProcNetWireless', () => {
+  expect(parseProcNetWireless(readFixture('linux-proc-net-wireless.txt'))).toEqual({
+    wlan0: { quality: 54 / 70, signal: -56 },
+    wlp3s0: { quality: 1, signal: -38, noise: -92 },
+  });
+});
+
+test('parseIwLink', () => {
+  expect(parseIwLink(readFixture('linux-iw-link.txt'))).toEqual({
+    bssid: '34:12:98:ab:cd:ef',
+    ssid: 'Home Network: 5G',
+    frequency: 5180,
+    channel: 36,
+    band: '5GHz',
+    signal: -56,
+    receiveBitrate: 866.7e6,
+    transmitBitrate: 780e6,
+  });
+  expect(parseIwLink('Not connected.\n')).toEqual({});
+});
+
+test('parseNmcliWifiNetworks', () => {
+  const networks = parseNmcliWifiNetworks(readFixture('linux-nmcli-wifi.txt'));
+  expect(networks).toHaveLength(4);
+  expect(networks[0]).toEqual({
+    ssid: 'Home Network: 5G',
+    bssid: '34:12:98:ab:cd:ef',
+    channel: 36,
+    frequency: 5180,
+    band: '5GHz',
+    bitrate: 540e6,
+    quality: 0.86,
+    signal: -57,
+    security: 'WPA2 WPA3',
+    interface: 'wlan0',
+    connected: true,
+  });
+  expect(networks[1]).toMatchObject({ band: '2.4GHz', connected: false });
+  expect(networks[2]).toMatchObject({ ssid: '', security: 'Open' });
+  expect(networks[3].band).toBe('6GHz');
+});
+
+test('parseNetshWlanInterfaces', () => {
+  expect(parseNetshWlanInterfaces(readFixture('windows-netsh-wlan-interfaces.txt'))).toEqual({
+    'Wi-Fi': {
+      ssid: 'Home Network',
+      bssid: '34:12:98:ab:cd:ef',
+      band: '5GHz',
+      channel: 36,
+      frequency: 5180,
+      security: 'WPA2-Personal',
+      receiveBitrate: 1201e6,
+      transmitBitrate: 960e6,
+      quality: 0.88,
+      signal: -52,
+    },
+  });
+  expect(parseNetshWlanInterfaces('There is no wireless interface on the system.')).toEqual({});
+});
+
+test('parseNetshWlanNetworks', () => {
+  const networks = parseNetshWlanNetworks(readFixture('windows-netsh-wlan-networks.txt'));
+  expect(networks.map((network) => [network.ssid, network.bssid, network.band, network.channel])).toEqual([
+    ['Home Network', '34:12:98:ab:cd:ef', '5GHz', 36],
+    ['Home Network', '34:12:98:ab:cd:ee', '2.4GHz', 6],
+    ['', '7a:45:58:01:02:03', '2.4GHz', 11],
+  ]);
+  expect(networks[0]).toMatchObject({ quality: 0.88, signal: -56, security: 'WPA2-Personal', interface: 'Wi-Fi' });
+  expect(networks[2].security).toBe('Open');
+});
@@ -0,0 +1,389 @@
+import fs from 'fs/promises';
+import { execCommand } from './utils';
+
+export type BatteryState = 'charging' | 'discharging' | 'full' | 'not-charging' | 'unknown';
+
+export type BatteryInfo = {
+  /** Name of the battery (e.g., BAT0 on Linux, InternalBattery-0 on macOS). */
+  name: string;
+
+  /** Manufacturer of the battery. */
+  manufacturer?: string;
+
+  /** Model of the battery. */
+  model?: string;
+
+  /** Serial number of the battery. */
+  serial?: string;
+
+  /** Chemistry of the battery (e.g., Li-ion, Li-poly). */
+  technology?: string;
+
+  /** Charge level of the battery as a percentage (0.0-1.0). */
+  percentage: number;
+
+  /** If the battery is charging, discharging, full or connected to power but not charging (e.g. charge limit reached). */
+  state: BatteryState;
+
+  /** Capacity of the battery as designed by the manufacturer in watt-hours. */
+  designCapacity?: number;
+
+  /** Capacity of the battery when fully charged in watt-hours (decreases as the battery wears). */
+  fullCapacity?: number;
+
+  /** Remaining capacity of the battery in watt-hours. */
+  remainingCapacity?: number;
+
+  /** Health of the battery as ratio of full to design capacity (0.0-1.0, lower means more wear). */
+  health?: number;
+
+  /** Number of charge cycles the battery went through. */
+  cycleCount?: number;
+
+  /** Current voltage of the battery in volts. */
+  voltage?: number;
+
+  /** Power currently drawn from (discharging) or charged into (charging) the battery in watts. */
+  power?: number;
+
+  /** Estimated time in seconds until the battery is empty (only while discharging). */
+  timeToEmpty?: number;
+
+  /** Estimated time in seconds until the battery is fully charged (only while charging). */
+  timeToFull?: number;
+};
+
+export type PowerInfo = {
+  /** If an AC adapter (or USB power delivery) is connected, undefined if unknown (e.g. desktops without power supply information). */
+  acConnected?: boolean;
+
+  /** Batteries of the system (empty if the system has no battery). */
+  batteries: BatteryInfo[];
+};
+
+/**
+ * Computes the health and time estimates of a battery from its capacities and power.
+ */
+function completeBatteryInfo(battery: BatteryInfo): BatteryInfo {
+  if (battery.fullCapacity && battery.designCapacity)
+    battery.health = Math.min(1, battery.fullCapacity / battery.designCapacity);
+  if (
+    battery.power &&
+    battery.power > 0 &&
+    battery.remainingCapacity !== undefined &&
+    battery.timeToEmpty === undefined
+  ) {
+    if (battery.state === 'discharging') {
+      battery.timeToEmpty = Math.round((battery.remainingCapacity / battery.power) * 3600);
+    } else if (battery.state === 'charging' && battery.fullCapacity && battery.timeToFull === undefined) {
+      battery.timeToFull = Math.round(
+        (Math.max(0, battery.fullCapacity - battery.remainingCapacity) / battery.power) * 3600,
+      );
+    }
+  }
+  return battery;
+}
+
+/**
+ * Reads the batteries and AC adapters from /sys/class/power_supply.
+ */
+async function getLinuxPowerInfo(): Promise<PowerInfo> {
+  const info: PowerInfo = { batteries: [] };
+  const supplies = await fs.readdir('/sys/class/power_supply').catch(() => [] as string[]);
+  const adapters: boolean[] = [];
+
+  await Promise.all(
+    supplies.map(async (supply) => {
+      const dir = '/sys/class/power_supply/' + supply + '/';
+      const read = (file: string) =>
+        fs
+          .readFile(dir + file, 'utf8')
+          .then((data) => data.trim())
+          .catch(() => '');
+      const readNum = (file: string) => read(file).then((value) => (value ? parseInt(value, 10) : NaN));
+      const [type, scope, present, online] = await Promise.all([
+        read('type'),
+        read('scope'),
+        read('present'),
+        read('online'),
+      ]);
+
+      if (type === 'Mains' || type.startsWith('USB')) {
+        if (online) adapters.push(online === '1');
+        return;
+      }
+      // scope "Device" marks batteries of peripherals (e.g. wireless mice)
+      if (type !== 'Battery' || scope === 'Device' || present === '0') return;
+
+      const [
+        status,
+        capacity,
+        energyNow,
+        energyFull,
+        energyFullDesign,
+        chargeNow,
+        chargeFull,
+        chargeFullDesign,
+        voltageNow,
+        voltageMinDesign,
+        powerNow,
+        currentNow,
+        cycleCount,
+        timeToEmpty,
+        timeToFull,
+      ] = await Promise.all([
+        read('status'),
+        readNum('capacity'),
+        readNum('energy_now'),
+        readNum('energy_full'),
+        readNum('energy_full_design'),
+        readNum('charge_now'),
+        readNum('charge_full'),
+        readNum('charge_full_design'),
+        readNum('voltage_now'),
+        readNum('voltage_min_design'),
+        readNum('power_now'),
+        readNum('current_now'),
+        readNum('cycle_count'),
+        readNum('time_to_empty_now'),
+        readNum('time_to_full_now'),
+      ]);
+      const [manufacturer, model, serial, technology] = await Promise.all([
+        read('manufacturer'),
+        read('model_name'),
+        read('serial_number'),
+        read('technology'),
+      ]);
+
+      const statusLower = status.toLowerCase();
+      const battery: BatteryInfo = {
+        name: supply,
+        percentage: 0,
+        state:
+          statusLower === 'charging'
+            ? 'charging'
+            : statusLower === 'discharging'
+              ? 'discharging'
+              : statusLower === 'full'
+                ? 'full'
+                : statusLower === 'not charging'
+                  ? 'not-charging'
+                  : 'unknown',
+      };
+      if (manufacturer) battery.manufacturer = manufacturer;
+      if (model) battery.model = model;
+      if (serial) battery.serial = serial;
+      if (technology && technology !== 'Unknown') battery.technology = technology;
+
+      // values are reported in micro units (µWh, µAh, µV, µW, µA)
+      const voltage = !Number.isNaN(voltageNow) ? voltageNow / 1e6 : undefined;
+      if (voltage) battery.voltage = voltage;
+      if (!Number.isNaN(energyFull)) {
+        battery.remainingCapacity = Number.isNaN(energyNow) ? undefined : energyNow / 1e6;
+        battery.fullCapacity = energyFull / 1e6;
+        if (!Number.isNaN(energyFullDesign)) battery.designCapacity = energyFullDesign / 1e6;
+      } else if (!Number.isNaN(chargeFull)) {
+        // charge is reported in ampere-hours which are converted to watt-hours using the nominal voltage
+        const nominalVoltage = !Number.isNaN(voltageMinDesign) ? voltageMinDesign / 1e6 : voltage;
+        if (nominalVoltage) {
+          battery.remainingCapacity = Number.isNaN(chargeNow) ? undefined : (chargeNow / 1e6) * nominalVoltage;
+          battery.fullCapacity = (chargeFull / 1e6) * nominalVoltage;
+          if (!Number.isNaN(chargeFullDesign)) battery.designCapacity = (chargeFullDesign / 1e6) * nominalVoltage;
+        }
+      }
+      if (battery.remainingCapacity === undefined) delete battery.remainingCapacity;
+
+      if (!Number.isNaN(capacity)) battery.percentage = Math.min(1, capacity / 100);
+      else if (battery.remainingCapacity !== undefined && battery.fullCapacity)
+        battery.percentage = Math.min(1, battery.remainingCapacity / battery.fullCapacity);
+
+      // some drivers report negative values while discharging
+      if (!Number.isNaN(powerNow)) battery.power = Math.abs(powerNow) / 1e6;
+      else if (!Number.isNaN(currentNow) && voltage) battery.power = (Math.abs(currentNow) / 1e6) * voltage;
+      if (!Number.isNaN(cycleCount) && cycleCount > 0) battery.cycleCount = cycleCount;
+      if (!Number.isNaN(timeToEmpty) && battery.state === 'discharging') battery.timeToEmpty = timeToEmpty;
+      if (!Number.isNaN(timeToFull) && battery.state === 'charging') battery.timeToFull = timeToFull;
+
+      info.batteries.push(completeBatteryInfo(battery));
+    }),
+  );
+
+  if (adapters.length > 0) info.acConnected = adapters.includes(true);
+  else if (info.batteries.length > 0) info.acConnected = !info.batteries.some((b) => b.state === 'discharging');
+  info.batteries.sort((a, b) => a.name.localeCompare(b.name));
+  return info;
+}
+
+/**
+ * Reads the batteries from Win32_Battery and the battery classes of the root/wmi namespace.
+ */
+async function getWindowsPowerInfo(): Promise<PowerInfo> {
+  const info: PowerInfo = { batteries: [] };
+  const output = await execCommand(
+    'powershell -Command "[PSCustomObject]@{ Battery = @(Get-CimInstance -ClassName Win32_Battery | Select-Object DeviceID, Name, BatteryStatus, EstimatedChargeRemaining, EstimatedRunTime, Chemistry); Status = @(Get-CimInstance -Namespace root/wmi -ClassName BatteryStatus -ErrorAction SilentlyContinue | Select-Object InstanceName, PowerOnline, Charging, Discharging, Voltage, RemainingCapacity, ChargeRate, DischargeRate); Static = @(Get-CimInstance -Namespace root/wmi -ClassName BatteryStaticData -ErrorAction SilentlyContinue | Select-Object InstanceName, DesignedCapacity, ManufactureName, SerialNumber); Full = @(Get-CimInstance -Namespace root/wmi -ClassName BatteryFullChargedCapacity -ErrorAction SilentlyContinue | Select-Object InstanceName, FullChargedCapacity); Cycles = @(Get-CimInstance -Namespace root/wmi -ClassName BatteryCycleCount -ErrorAction SilentlyContinue | Select-Object InstanceName, CycleCount) } | ConvertTo-Json -Depth 3"',
+  ).catch(() => '');
+  let json: any = {};
+  try {
+    json = JSON.parse(output) ?? {};
+    // tslint:disable-next-line:no-empty
+  } catch {}
+  const list = (value: any): any[] => (Array.isArray(value) ? value : value ? [value] : []);
+  const statuses = list(json.Status);
+  const statics = list(json.Static);
+  const fulls = list(json.Full);
+  const cycles = list(json.Cycles);
+
+  // Win32_Battery has no instance name, batteries are matched by their order
+  list(json.Battery).forEach((entry, index) => {
+    const status = statuses[index] ?? {};
+    const instanceName = status.InstanceName;
+    const byInstance = (items: any[]) =>
+      items.find((item) => instanceName && item.InstanceName === instanceName) ?? items[index] ?? {};
+    const staticData = byInstance(statics);
+    const full = byInstance(fulls);
+    const cycle = byInstance(cycles);
+
+    // BatteryStatus: 1 = discharging, 2 = on AC, 3 = fully charged, 6-9 = charging
+    const batteryStatus = parseInt(entry.BatteryStatus, 10);
+    const state: BatteryState =
+      status.Charging === true || (batteryStatus >= 6 && batteryStatus <= 9)
+        ? 'charging'
+        : status.Discharging === true || batteryStatus === 1
+          ? 'discharging'
+          : batteryStatus === 3
+            ? 'full'
+            : batteryStatus === 2
+              ? 'not-charging'
+              : 'unknown';
+    const battery: BatteryInfo = {
+      name: String(entry.DeviceID || entry.Name || 'Battery' + index).trim(),
+      percentage: Math.min(1, (parseInt(entry.EstimatedChargeRemaining, 10) || 0) / 100),
+      state,
+    };
+    if (entry.Name) battery.model = String(entry.Name).trim();
+    if (staticData.ManufactureName) battery.manufacturer = String(staticData.ManufactureName).trim();
+    if (staticData.SerialNumber) battery.serial = String(staticData.SerialNumber).trim();
+
+    // capacities are reported in mWh, voltage in mV and rates in mW
+    if (staticData.DesignedCapacity) battery.designCapacity = staticData.DesignedCapacity / 1000;
+    if (full.FullChargedCapacity) battery.fullCapacity = full.FullChargedCapacity / 1000;
+    if (typeof status.RemainingCapacity === 'number') battery.remainingCapacity = status.RemainingCapacity / 1000;
+    if (status.Voltage) battery.voltage = status.Voltage / 1000;
+    const rate = state === 'charging' ? status.ChargeRate : status.DischargeRate;
+    if (typeof rate === 'number' && rate > 0) battery.power = rate / 1000;
+    if (cycle.CycleCount) battery.cycleCount = cycle.CycleCount;
+    // EstimatedRunTime is reported in minutes, 71582788 means connected to AC
+    const runTime = parseInt(entry.EstimatedRunTime, 10);
+    if (state === 'discharging' && runTime > 0 && runTime < 71582788) battery.timeToEmpty = runTime * 60;
+
+    info.batteries.push(completeBatteryInfo(battery));
+    if (typeof status.PowerOnline === 'boolean') info.acConnected = info.acConnected || status.PowerOnline;
+    else if (!Number.isNaN(batteryStatus)) info.acConnected = info.acConnected || batteryStatus !== 1;
+  });
+  return info;
+}
+
+/**
+ * Parses an integer of the ioreg output, which prints negative values as unsigned 64-bit numbers
+ * (e.g. 18446744073709550574 for -1042).
+ *
+ * @param value Integer as printed by ioreg.
+ * @returns Signed value or NaN if not an integer.
+ */
+function parseIoregInteger(value: string | undefined): number {
+  if (!value || !/^-?\d+$/.test(value)) return NaN;
+  return Number(BigInt.asIntN(64, BigInt(value)));
+}
+
+/**
+ * Reads the batteries from pmset and the AppleSmartBattery registry entry.
+ */
+async function getMacPowerInfo(): Promise<PowerInfo> {
+  const [pmset, ioreg] = await Promise.all([
+    execCommand('pmset -g batt').catch(() => ''),
+    execCommand('ioreg -rn AppleSmartBattery').catch(() => ''),
+  ]);
+  return parseMacPowerInfo(pmset, ioreg);
+}
+
+/**
+ * Parses the batteries of macOS.
+ *
+ * @param pmset Output of pmset -g batt.
+ * @param ioreg Output of ioreg -rn AppleSmartBattery.
+ * @returns Power supply information.
+ */
+export function parseMacPowerInfo(pmset: string, ioreg: string): PowerInfo {
+  const info: PowerInfo = { batteries: [] };
+
+  // e.g. "Now drawing from 'AC Power'"
+  const source = pmset.match(/drawing from '([^']+)'/);
+  if (source) info.acConnected = source[1] === 'AC Power';
+
+  const registry: { [key: string]: string } = {};
+  for (const match of ioreg.matchAll(/"(\w+)" = (-?\d+|Yes|No|"[^"]*")/g))
+    registry[match[1]] = match[2].replace(/"/g, '');
+
+  // e.g. " -InternalBattery-0 (id=1234)	85%; discharging; 4:32 remaining present: true"
+  for (const match of pmset.matchAll(/-(\S+) \(id=\d+\)\s+(\d+)%; ([^;]+);\s*(\d+:\d+)?/g)) {
+    const status = match[3].trim().toLowerCase();
+    const battery: BatteryInfo = {
+      name: match[1],
+      percentage: Math.min(1, parseInt(match[2], 10) / 100),
+      state:
+        status === 'charging'
+          ? 'charging'
+          : status === 'discharging'
+            ? 'discharging'
+            : status === 'charged'
+              ? 'full'
+              : status === 'ac attached' || status === 'finishing charge'
+                ? 'not-charging'
+                : 'unknown',
+    };
+    if (match[4]) {
+      const [hours, minutes] = match[4].split(':').map((value) => parseInt(value, 10));
+      if (battery.state === 'discharging') battery.timeToEmpty = (hours * 60 + minutes) * 60;
+      else if (battery.state === 'charging') battery.timeToFull = (hours * 60 + minutes) * 60;
+    }
+
+    // capacities are reported in mAh, voltage in mV and amperage in mA (negative while discharging)
+    const voltage = parseInt(registry.Voltage, 10) / 1000;
+    if (voltage) {
+      battery.voltage = voltage;
+      const designCapacity = parseInt(registry.DesignCapacity, 10);
+      const fullCapacity = parseInt(registry.AppleRawMaxCapacity || registry.MaxCapacity, 10);
+      const remainingCapacity = parseInt(registry.AppleRawCurrentCapacity || registry.CurrentCapacity, 10);
+      if (designCapacity) battery.designCapacity = (designCapacity / 1000) * voltage;
+      if (fullCapacity > 100) battery.fullCapacity = (fullCapacity / 1000) * voltage; // newer models report percent
+      if (remainingCapacity > 100) battery.remainingCapacity = (remainingCapacity / 1000) * voltage;
+      const amperage = parseIoregInteger(registry.InstantAmperage || registry.Amperage);
+      if (amperage) battery.power = (Math.abs(amperage) / 1000) * voltage;
+    }
+    const cycleCount = parseInt(registry.CycleCount, 10);
+    if (cycleCount) battery.cycleCount = cycleCount;
+    if (registry.Serial) battery.serial = registry.Serial;
+    if (registry.DeviceName) battery.model = registry.DeviceName;
+
+    info.batteries.push(completeBatteryInfo(battery));
+  }
+  return info;
+}
+
+/**
+ * Returns the batteries of the system and if an AC adapter is connected.
+ *
+ * @returns Power supply information.
+ */
+export async function getBattery(): Promise<PowerInfo> {
+  switch (process.platform) {
+    case 'linux':
+      return getLinuxPowerInfo();
+    case 'win32':
+      return getWindowsPowerInfo();
+    case 'darwin':
+      return getMacPowerInfo();
+    default:
+      return { batteries: [] };
+  }
+}
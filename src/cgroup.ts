@@ -0,0 +1,278 @@
+import fs from 'fs/promises';
+
+const CGROUP_ROOT = '/sys/fs/cgroup';
+
+/** Values above this limit are treated as "no limit" (cgroup v1 reports unlimited as a huge page aligned number). */
+const CGROUP_UNLIMITED = 2 ** 60;
+
+export type CgroupCpu = {
+  /** Number of CPU cores the cgroup may use based on its quota and cpuset (can be fractional), undefined if unknown. */
+  cores?: number;
+
+  /** CPU quota in microseconds per period, undefined if unlimited. */
+  quota?: number;
+
+  /** Length of a quota period in microseconds. */
+  period?: number;
+
+  /** Cumulative CPU time consumed by the cgroup in microseconds. */
+  usage?: number;
+
+  /** Number of CPUs in the cpuset of the cgroup. */
+  cpusetCount?: number;
+
+  /** Throttling statistics of the cgroup. */
+  throttling?: {
+    /** Number of elapsed quota periods. */
+    periods: number;
+
+    /** Number of periods in which the cgroup has been throttled. */
+    throttledPeriods: number;
+
+    /** Total time the cgroup has been throttled in microseconds. */
+    throttledTime: number;
+  };
+};
+
+export type CgroupMemory = {
+  /** Memory limit of the cgroup in bytes, undefined if unlimited. */
+  limit?: number;
+
+  /** Memory currently used by the cgroup in bytes (including page cache). */
+  usage: number;
+
+  /** Memory used by the page cache that can be reclaimed (inactive file pages) in bytes. */
+  reclaimable?: number;
+
+  /** Swap limit of the cgroup in bytes, undefined if unlimited or not available. */
+  swapLimit?: number;
+
+  /** Swap currently used by the cgroup in bytes. */
+  swapUsage?: number;
+};
+
+export type CgroupInfo = {
+  /** Version of the cgroup hierarchy. */
+  version: 1 | 2;
+
+  /** CPU limits and statistics of the cgroup. */
+  cpu: CgroupCpu;
+
+  /** Memory limits and statistics of the cgroup. */
+  memory: CgroupMemory;
+};
+
+async function readCgroupFile(path: string): Promise<string | undefined> {
+  return fs
+    .readFile(path, 'utf8')
+    .then((data) => data.trim())
+    .catch(() => undefined);
+}
+
+/**
+ * Parses a flat keyed cgroup file (e.g., cpu.stat, memory.stat) into an object.
+ *
+ * @param content Content of the file with lines of format "key value".
+ * @returns Object with keys and their numeric values.
+ */
+function parseCgroupStat(content: string | undefined): { [key: string]: number } {
+  const result: { [key: string]: number } = {};
+  for (const line of (content || '').split('\n')) {
+    const [key, value] = line.trim().split(/\s+/);
+    const num = parseInt(value, 10);
+    if (key && !Number.isNaN(num)) result[key] = num;
+  }
+  return result;
+}
+
+/**
+ * Counts the CPUs of a cpuset list (e.g., "0-3,8,10-11").
+ *
+ * @param list Cpuset list.
+ * @returns Number of CPUs or undefined if the list is empty.
+ */
+function countCpuset(list: string | undefined): number | undefined {
+  if (!list) return undefined;
+  let count = 0;
+  for (const range of list.split(',')) {
+    const [start, end] = range.split('-').map((value) => parseInt(value, 10));
+    if (Number.isNaN(start)) continue;
+    count += end !== undefined && !Number.isNaN(end) ? end - start + 1 : 1;
+  }
+  return count > 0 ? count : undefined;
+}
+
+/**
+ * Parses a limit value of a cgroup file.
+ *
+ * @param value Limit value (e.g., "max", "-1", "9223372036854771712", "1073741824").
+ * @returns Limit as number or undefined if unlimited.
+ */
+function parseCgroupLimit(value: string | undefined): number | undefined {
+  if (!value || value === 'max') return undefined;
+  const num = parseInt(value, 10);
+  return !Number.isNaN(num) && num >= 0 && num < CGROUP_UNLIMITED ? num : undefined;
+}
+
+/**
+ * Returns the directory of a cgroup controller for the current process.
+ * Falls back to the root of the controller if the path is not visible (e.g. inside a container with a cgroup namespace).
+ */
+async function resolveCgroupDir(mount: string, path: string, probeFile: string): Promise<string> {
+  const dir = mount + (path === '/' ? '' : path);
+  if ((await readCgroupFile(dir + '/' + probeFile)) !== undefined) return dir;
+  return mount;
+}
+
+/**
+ * Returns the limits and statistics of the cgroup (control group) the current process runs in.
+ * Containers (e.g. Docker, Kubernetes) use cgroups to limit the CPU and memory available to them.
+ *
+ * @returns Cgroup information or null if cgroups are not available (e.g. not on Linux).
+ */
+export async function getCgroupInfo(): Promise<CgroupInfo | null> {
+  if (process.platform !== 'linux') return null;
+  const procCgroup = await readCgroupFile('/proc/self/cgroup');
+  if (!procCgroup) return null;
+
+  // maps controllers to the cgroup path of the current process (format "hierarchy-ID:controller-list:path")
+  const paths: { [controller: string]: string } = {};
+  for (const line of procCgroup.split('\n')) {
+    const [, controllers, ...pathParts] = line.split(':');
+    const path = pathParts.join(':');
+    if (controllers === '') paths[''] = path;
+    for (const controller of (controllers || '').split(',')) if (controller) paths[controller] = path;
+  }
+
+  const isV2 = (await readCgroupFile(CGROUP_ROOT + '/cgroup.controllers')) !== undefined;
+  return isV2 ? readCgroupV2Info(paths['']) : readCgroupV1Info(paths);
+}
+
+/**
+ * Reads the cgroup information of the unified (v2) hierarchy.
+ *
+ * @param path Cgroup path of the current process.
+ */
+async function readCgroupV2Info(path: string | undefined): Promise<CgroupInfo> {
+  // controllers are enabled per cgroup, so each one is looked up separately (cpu.stat exists in every cgroup)
+  const [dir, cpuDir, cpusetDir, memoryDir] = await Promise.all(
+    ['cgroup.controllers', 'cpu.max', 'cpuset.cpus.effective', 'memory.max'].map((probeFile) =>
+      resolveCgroupDir(CGROUP_ROOT, path ?? '/', probeFile),
+    ),
+  );
+  const [cpuMax, cpuStat, cpuset, memoryMax, memoryCurrent, memoryStat, swapMax, swapCurrent] = await Promise.all([
+    readCgroupFile(cpuDir + '/cpu.max'),
+    readCgroupFile(dir + '/cpu.stat'),
+    readCgroupFile(cpusetDir + '/cpuset.cpus.effective'),
+    readCgroupFile(memoryDir + '/memory.max'),
+    readCgroupFile(memoryDir + '/memory.current'),
+    readCgroupFile(memoryDir + '/memory.stat'),
+    readCgroupFile(memoryDir + '/memory.swap.max'),
+    readCgroupFile(memoryDir + '/memory.swap.current'),
+  ]);
+
+  const cpu: CgroupCpu = {};
+  const [quota, period] = (cpuMax || '').split(/\s+/);
+  cpu.quota = parseCgroupLimit(quota);
+  if (period) cpu.period = parseInt(period, 10) || undefined;
+  const stat = parseCgroupStat(cpuStat);
+  if (stat.usage_usec !== undefined) cpu.usage = stat.usage_usec;
+  if (stat.nr_periods !== undefined) {
+    cpu.throttling = {
+      periods: stat.nr_periods,
+      throttledPeriods: stat.nr_throttled ?? 0,
+      throttledTime: stat.throttled_usec ?? 0,
+    };
+  }
+  cpu.cpusetCount = countCpuset(cpuset);
+
+  const memStat = parseCgroupStat(memoryStat);
+  const memory: CgroupMemory = {
+    limit: parseCgroupLimit(memoryMax),
+    usage: parseInt(memoryCurrent || '', 10) || 0,
+  };
+  if (memStat.inactive_file !== undefined) memory.reclaimable = memStat.inactive_file;
+  memory.swapLimit = parseCgroupLimit(swapMax);
+  if (swapCurrent !== undefined) memory.swapUsage = parseInt(swapCurrent, 10) || 0;
+
+  return { version: 2, cpu: computeCgroupCores(cpu), memory };
+}
+
+/**
+ * Reads the cgroup information of the legacy (v1) hierarchy where every controller is mounted separately.
+ *
+ * @param paths Cgroup paths of the current process by controller.
+ */
+async function readCgroupV1Info(paths: { [controller: string]: string }): Promise<CgroupInfo | null> {
+  // cpu and cpuacct are often mounted combined
+  const cpuDir = await resolveCgroupDir(
+    (await readCgroupFile(CGROUP_ROOT + '/cpu,cpuacct/cpu.cfs_quota_us')) !== undefined
+      ? CGROUP_ROOT + '/cpu,cpuacct'
+      : CGROUP_ROOT + '/cpu',
+    paths.cpu ?? '/',
+    'cpu.cfs_quota_us',
+  );
+  const cpuacctDir = await resolveCgroupDir(
+    (await readCgroupFile(CGROUP_ROOT + '/cpu,cpuacct/cpuacct.usage')) !== undefined
+      ? CGROUP_ROOT + '/cpu,cpuacct'
+      : CGROUP_ROOT + '/cpuacct',
+    paths.cpuacct ?? '/',
+    'cpuacct.usage',
+  );
+  const cpusetDir = await resolveCgroupDir(CGROUP_ROOT + '/cpuset', paths.cpuset ?? '/', 'cpuset.effective_cpus');
+  const memoryDir = await resolveCgroupDir(CGROUP_ROOT + '/memory', paths.memory ?? '/', 'memory.usage_in_bytes');
+  const [quota, period, cpuStat, cpuUsage, cpuset, memoryLimit, memoryUsage, memoryStat, memswLimit, memswUsage] =
+    await Promise.all([
+      readCgroupFile(cpuDir + '/cpu.cfs_quota_us'),
+      readCgroupFile(cpuDir + '/cpu.cfs_period_us'),
+      readCgroupFile(cpuDir + '/cpu.stat'),
+      readCgroupFile(cpuacctDir + '/cpuacct.usage'),
+      readCgroupFile(cpusetDir + '/cpuset.effective_cpus').then(
+        (value) => value ?? readCgroupFile(cpusetDir + '/cpuset.cpus'),
+      ),
+      readCgroupFile(memoryDir + '/memory.limit_in_bytes'),
+      readCgroupFile(memoryDir + '/memory.usage_in_bytes'),
+      readCgroupFile(memoryDir + '/memory.stat'),
+      readCgroupFile(memoryDir + '/memory.memsw.limit_in_bytes'),
+      readCgroupFile(memoryDir + '/memory.memsw.usage_in_bytes'),
+    ]);
+  if (quota === undefined && memoryUsage === undefined) return null;
+
+  const cpu: CgroupCpu = {};
+  cpu.quota = parseCgroupLimit(quota);
+  if (period) cpu.period = parseInt(period, 10) || undefined;
+  if (cpuUsage) cpu.usage = Math.floor(parseInt(cpuUsage, 10) / 1000); // ns to us
+  const stat = parseCgroupStat(cpuStat);
+  if (stat.nr_periods !== undefined) {
+    cpu.throttling = {
+      periods: stat.nr_periods,
+      throttledPeriods: stat.nr_throttled ?? 0,
+      throttledTime: Math.floor((stat.throttled_time ?? 0) / 1000), // ns to us
+    };
+  }
+  cpu.cpusetCount = countCpuset(cpuset);
+
+  const memStat = parseCgroupStat(memoryStat);
+  const memory: CgroupMemory = {
+    limit: parseCgroupLimit(memoryLimit),
+    usage: parseInt(memoryUsage || '', 10) || 0,
+  };
+  const inactiveFile = memStat.total_inactive_file ?? memStat.inactive_file;
+  if (inactiveFile !== undefined) memory.reclaimable = inactiveFile;
+  const memswLimitNum = parseCgroupLimit(memswLimit);
+  if (memswLimitNum !== undefined && memory.limit !== undefined)
+    memory.swapLimit = Math.max(0, memswLimitNum - memory.limit); // memsw includes memory
+  if (memswUsage !== undefined) memory.swapUsage = Math.max(0, (parseInt(memswUsage, 10) || 0) - memory.usage);
+
+  return { version: 1, cpu: computeCgroupCores(cpu), memory };
+}
+
+/**
+ * Computes the effective number of CPU cores from the quota and the cpuset.
+ */
+function computeCgroupCores(cpu: CgroupCpu): CgroupCpu {
+  const quotaCores = cpu.quota !== undefined && cpu.period ? cpu.quota / cpu.period : undefined;
+  if (quotaCores !== undefined && cpu.cpusetCount !== undefined) cpu.cores = Math.min(quotaCores, cpu.cpusetCount);
+  else cpu.cores = quotaCores ?? cpu.cpusetCount;
+  return cpu;
+}
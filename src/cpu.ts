@@ -1,5 +1,36 @@
+import fs from 'fs/promises';
 import os from 'os';
-import { sleep } from './utils';
+import { getCgroupInfo } from './cgroup';
+import { execCommand, sleep } from './utils';
+
+export type CPUTimeBreakdown = {
+  /** Share of time spent in user mode as a percentage (0.0-1.0). */
+  user: number;
+
+  /** Share of time spent in user mode with low priority (nice) as a percentage (0.0-1.0). */
+  nice: number;
+
+  /** Share of time spent in kernel mode as a percentage (0.0-1.0). */
+  system: number;
+
+  /** Share of time spent servicing hardware interrupts as a percentage (0.0-1.0). */
+  irq: number;
+
+  /** Share of time spent servicing software interrupts as a percentage (0.0-1.0). */
+  softirq: number;
+
+  /** Share of time spent idle while waiting for I/O to complete as a percentage (0.0-1.0). */
+  iowait: number;
+
+  /**
+   * Share of time stolen by the hypervisor for other virtual machines as a percentage (0.0-1.0).
+   * Only available on Linux, otherwise always 0.
+   */
+  steal: number;
+
+  /** Share of time spent idle as a percentage (0.0-1.0). */
+  idle: number;
+};
 
 export type CPUUtilization = {
   /** Overall CPU utilization as a percentage (0.0-1.0). */
@@ -7,6 +38,93 @@ export type CPUUtilization = {
 
   /** Utilization of each CPU core as a percentage (0.0-1.0). */
   cores: number[];
+
+  /**
+   * Breakdown of where the CPU time has been spent.
+   * On Linux read from /proc/stat, on other platforms softirq, iowait and steal are always 0.
+   */
+  times: {
+    /** Breakdown over all CPU cores. */
+    overall: CPUTimeBreakdown;
+
+    /** Breakdown of each CPU core. */
+    cores: CPUTimeBreakdown[];
+  };
+};
+
+export type CPUCaches = {
+  /** Size of a single L1 data cache in bytes. */
+  l1d?: number;
+
+  /** Size of a single L1 instruction cache in bytes. */
+  l1i?: number;
+
+  /** Size of a single L2 cache in bytes. */
+  l2?: number;
+
+  /** Size of a single L3 cache in bytes. */
+  l3?: number;
+};
+
+export type CPUThread = {
+  /** Index of the logical CPU (hardware thread) as used by the operating system. */
+  id: number;
+
+  /** Index of the socket (physical package) the thread belongs to. */
+  socket: number;
+
+  /** ID of the physical core the thread belongs to (unique within a socket). */
+  core: number;
+
+  /** Index of the NUMA node the thread belongs to. */
+  numaNode?: number;
+
+  /** Frequencies of the thread in MHz. */
+  frequency: {
+    /** Current frequency in MHz. */
+    current?: number;
+
+    /** Minimum frequency in MHz. */
+    min?: number;
+
+    /** Maximum frequency in MHz. */
+    max?: number;
+  };
+};
+
+export type CPUTopology = {
+  /** Vendor of the CPU (e.g., GenuineIntel, AuthenticAMD). */
+  vendor?: string;
+
+  /** CPU family number. */
+  family?: number;
+
+  /** CPU model number. */
+  model?: number;
+
+  /** CPU stepping (revision) number. */
+  stepping?: number;
+
+  /** Feature flags supported by the CPU in lower case (e.g., sse4_2, avx2, avx512f). */
+  flags: string[];
+
+  /** Number of sockets (physical packages). */
+  sockets: number;
+
+  /** Number of physical cores over all sockets. */
+  physicalCores: number;
+
+  /** Number of hardware threads (logical CPUs) over all sockets. */
+  threads: number;
+
+  /** Number of NUMA nodes, if known. */
+  numaNodes?: number;
+
+  /** Cache sizes of the CPU. */
+  caches: CPUCaches;
+
+  /** Details about each hardware thread (logical CPU). */
+  cores: CPUThread[];
 };
 
 export type CPU = {
@@ -27,6 +145,9 @@ export type CPU = {
 
   /** CPU utilization data. */
   utilization: CPUUtilization;
+
+  /** Topology of the CPU (sockets, cores, threads, caches), only if requested. */
+  topology?: CPUTopology;
 };
 
 /** Intervall in milliseconds at which CPU utilization is computed. */
@@ -34,41 +155,113 @@ export let CPU_COMPUTE_UTILIZATION_INTERVAL = 1000;
 
 const CPU_COMPUTE_UTILIZATION_INITIAL_DELAY = 50;
 
-let PREV_CPU_CORES: os.CpuInfo[] = [];
+/** Order of the CPU times as returned by readCpuTimes(). */
+const CPU_TIME_KEYS: (keyof CPUTimeBreakdown)[] = [
+  'user',
+  'nice',
+  'system',
+  'irq',
+  'softirq',
+  'iowait',
+  'steal',
+  'idle',
+];
+
+let PREV_CPU_TIMES: { overall: number[]; cores: number[][] } = { overall: [], cores: [] };
 const CPU_UTILIZATION: CPUUtilization = {
   overall: 0,
   cores: [],
+  times: {
+    overall: { user: 0, nice: 0, system: 0, irq: 0, softirq: 0, iowait: 0, steal: 0, idle: 0 },
+    cores: [],
+  },
 };
+let CPU_CGROUP_TRACKING = false; // cgroup utilization is only computed once a caller asked for it
+let PREV_CGROUP_CPU_USAGE: { usage: number; time: number } | null = null;
+let CPU_CGROUP_UTILIZATION: number | null = null;
 let CPU_COMPUTE_RUNNING = false;
 let CPU_COMPUTE_TIMEOUT: NodeJS.Timeout | null = null;
 
-async function computeCpuUtilization() {
-  const cpuCores = os.cpus();
-  const min = Math.min(cpuCores.length, PREV_CPU_CORES.length);
-  if (CPU_UTILIZATION.cores.length < min)
-    for (let i = CPU_UTILIZATION.cores.length; i < min; i++) CPU_UTILIZATION.cores.push(0);
-  else if (CPU_UTILIZATION.cores.length > min) CPU_UTILIZATION.cores = CPU_UTILIZATION.cores.slice(0, min);
+/**
+ * Reads the cumulative CPU times in the order of CPU_TIME_KEYS.
+ * On Linux /proc/stat is used, on other platforms (or if not readable) os.cpus() is used.
+ */
+async function readCpuTimes(): Promise<{ overall: number[]; cores: number[][] }> {
+  let overall: number[] = [];
+  let cores: number[][] = [];
+  if (process.platform === 'linux') {
+    const stat = await fs.readFile('/proc/stat', 'utf8').catch(() => '');
+    for (const line of stat.split('\n')) {
+      if (!line.startsWith('cpu')) continue;
+      // cpu user nice system idle iowait irq softirq steal (guest times are already included in user and nice)
+      const [name, user, nice, system, idle, iowait, irq, softirq, steal] = line.trim().split(/\s+/);
+      const times = [user, nice, system, irq, softirq, iowait, steal, idle].map((time) => parseInt(time, 10) || 0);
+      if (name === 'cpu') overall = times;
+      else cores.push(times);
+    }
+    if (cores.length > 0) return { overall, cores };
+  }
 
-  let totalUsage = 0;
-  let totalTotal = 0;
-  for (let i = 0; i < min; i++) {
-    const prev = PREV_CPU_CORES[i] as os.CpuInfo;
-    const next = cpuCores[i] as os.CpuInfo;
+  overall = [0, 0, 0, 0, 0, 0, 0, 0];
+  cores = os.cpus().map((core) => {
+    const times = [core.times.user, core.times.nice, core.times.sys, core.times.irq, 0, 0, 0, core.times.idle];
+    for (let i = 0; i < times.length; i++) overall[i] += times[i];
+    return times;
+  });
+  return { overall, cores };
+}
 
-    const nextUsage = (next.times.user + next.times.nice + next.times.sys + next.times.irq) * 1.0;
-    const prevUsage = prev.times.user + prev.times.nice + prev.times.sys + prev.times.irq;
-    const usage = nextUsage - prevUsage;
+/**
+ * Computes the share of each CPU time between two samples.
+ *
+ * @param prev Previous cumulative CPU times.
+ * @param next Next cumulative CPU times.
+ * @returns Breakdown of the CPU time and the utilization (busy ratio).
+ */
+function computeCpuTimeBreakdown(prev: number[], next: number[]): [CPUTimeBreakdown, number] {
+  const deltas = CPU_TIME_KEYS.map((_, i) => Math.max(0, (next[i] || 0) - (prev[i] || 0)));
+  const total = deltas.reduce((a, b) => a + b, 0);
+  const breakdown = {} as CPUTimeBreakdown;
+  CPU_TIME_KEYS.forEach((key, i) => (breakdown[key] = total !== 0 ? deltas[i] / total : 0));
+  return [breakdown, total !== 0 ? 1 - breakdown.idle - breakdown.iowait : 0];
+}
+
+async function computeCpuUtilization() {
+  const cpuTimes = await readCpuTimes();
+  const min = Math.min(cpuTimes.cores.length, PREV_CPU_TIMES.cores.length);
+  if (CPU_UTILIZATION.cores.length > min) {
+    CPU_UTILIZATION.cores = CPU_UTILIZATION.cores.slice(0, min);
+    CPU_UTILIZATION.times.cores = CPU_UTILIZATION.times.cores.slice(0, min);
+  }
 
-    const nextTotal = nextUsage + next.times.idle;
-    const prevTotal = prevUsage + prev.times.idle;
-    const total = nextTotal - prevTotal;
+  for (let i = 0; i < min; i++) {
+    const [breakdown, usage] = computeCpuTimeBreakdown(PREV_CPU_TIMES.cores[i], cpuTimes.cores[i]);
+    CPU_UTILIZATION.cores[i] = usage;
+    CPU_UTILIZATION.times.cores[i] = breakdown;
+  }
+  if (PREV_CPU_TIMES.overall.length > 0) {
+    const [breakdown, usage] = computeCpuTimeBreakdown(PREV_CPU_TIMES.overall, cpuTimes.overall);
+    CPU_UTILIZATION.overall = usage;
+    CPU_UTILIZATION.times.overall = breakdown;
+  }
+  PREV_CPU_TIMES = cpuTimes;
+  if (CPU_CGROUP_TRACKING) await computeCgroupCpuUtilization();
+}
 
-    CPU_UTILIZATION.cores[i] = usage / total;
-    totalUsage += usage;
-    totalTotal += total;
+/**
+ * Computes the utilization of the cgroup (container) relative to its CPU limit.
+ */
+async function computeCgroupCpuUtilization() {
+  if (process.platform !== 'linux') return;
+  const cgroup = await getCgroupInfo().catch(() => null);
+  const now = Date.now();
+  if (cgroup?.cpu.usage === undefined) return;
+  if (PREV_CGROUP_CPU_USAGE && now > PREV_CGROUP_CPU_USAGE.time) {
+    const cores = cgroup.cpu.cores ?? PREV_CPU_TIMES.cores.length;
+    const elapsed = (now - PREV_CGROUP_CPU_USAGE.time) * 1000 * cores; // ms to us of all cores
+    CPU_CGROUP_UTILIZATION = Math.min(1, Math.max(0, (cgroup.cpu.usage - PREV_CGROUP_CPU_USAGE.usage) / elapsed));
   }
-  CPU_UTILIZATION.overall = totalTotal !== 0 ? totalUsage / totalTotal : 0;
-  PREV_CPU_CORES = cpuCores;
+  PREV_CGROUP_CPU_USAGE = { usage: cgroup.cpu.usage, time: now };
 }
 
 async function runCpuComputeInterval() {
@@ -86,37 +279,253 @@ export function stopCpuUtilizationComputation() {
   if (CPU_COMPUTE_TIMEOUT) clearTimeout(CPU_COMPUTE_TIMEOUT);
   CPU_COMPUTE_TIMEOUT = null;
   CPU_COMPUTE_RUNNING = false;
+  CPU_CGROUP_TRACKING = false;
+  PREV_CGROUP_CPU_USAGE = null;
+  CPU_CGROUP_UTILIZATION = null;
+}
+
+/**
+ * Checks if the computation of CPU utilization is currently running in the background.
+ */
+export function isCpuUtilizationComputationRunning(): boolean {
+  return CPU_COMPUTE_RUNNING;
 }
 
 /**
  * Returns information about the CPU.
  *
+ * @param containerScoped If the core count and overall utilization should be reported relative to the CPU limit of the container (cgroup) instead of the host.
+ * @param includeTopology If the topology of the CPU should be included (see getCpuTopology).
  * @returns CPU information.
  */
-export async function getCpuInfo(): Promise<CPU> {
+export async function getCpuInfo(containerScoped: boolean = false, includeTopology: boolean = false): Promise<CPU> {
   const cpuCores = os.cpus();
-  return {
+  let coreCount = cpuCores.length;
+  if (containerScoped) {
+    const cgroup = await getCgroupInfo().catch(() => null);
+    if (cgroup?.cpu.cores !== undefined) coreCount = Math.max(1, Math.min(coreCount, Math.ceil(cgroup.cpu.cores)));
+  }
+  const cpu: CPU = {
     architecture: os.arch(),
-    coreCount: cpuCores.length,
+    coreCount,
     endian: os.endianness() as 'LE' | 'BE',
     name: cpuCores[0].model,
     speed: cpuCores[0].speed,
-    utilization: await getCpuUtilization(),
+    utilization: await getCpuUtilization(containerScoped),
   };
+  if (includeTopology) cpu.topology = await getCpuTopology();
+  return cpu;
+}
+
+/**
+ * Parses a cache size string (e.g., 32K, 2048 KB, 1M) into bytes.
+ *
+ * @param value Cache size string.
+ * @returns Size in bytes or undefined if not parseable.
+ */
+function parseCacheSize(value: string): number | undefined {
+  const match = /^(\d+)\s*([KMG]?)/i.exec(value.trim());
+  if (!match) return undefined;
+  const unit = match[2].toUpperCase();
+  const factor = unit === 'K' ? 1024 : unit === 'M' ? 1024 * 1024 : unit === 'G' ? 1024 * 1024 * 1024 : 1;
+  return parseInt(match[1], 10) * factor;
+}
+
+/**
+ * Returns the topology of the CPU(s) like sockets, physical cores, hardware threads, caches and frequencies.
+ *
+ * @returns CPU topology.
+ */
+export async function getCpuTopology(): Promise<CPUTopology> {
+  const cpuCores = os.cpus();
+  const topology: CPUTopology = {
+    flags: [],
+    sockets: 1,
+    physicalCores: cpuCores.length,
+    threads: cpuCores.length,
+    caches: {},
+    cores: cpuCores.map((core, id) => ({ id, socket: 0, core: id, frequency: { current: core.speed || undefined } })),
+  };
+
+  switch (process.platform) {
+    case 'linux': {
+      const cpuInfo = await fs.readFile('/proc/cpuinfo', 'utf8').catch(() => '');
+      let currThread: CPUThread | undefined;
+      for (const line of cpuInfo.split('\n')) {
+        const idx = line.indexOf(':');
+        if (idx < 0) continue;
+        const key = line.substring(0, idx).trim();
+        const value = line.substring(idx + 1).trim();
+        if (key === 'processor') {
+          currThread = topology.cores[parseInt(value, 10)];
+        } else if (key === 'vendor_id' || key === 'CPU implementer') {
+          topology.vendor = topology.vendor || value;
+        } else if (key === 'cpu family' || key === 'CPU architecture') {
+          if (topology.family === undefined) topology.family = parseInt(value, 10);
+        } else if (key === 'model' || key === 'CPU part') {
+          if (topology.model === undefined) topology.model = parseInt(value, value.startsWith('0x') ? 16 : 10);
+        } else if (key === 'stepping' || key === 'CPU revision') {
+          if (topology.stepping === undefined) topology.stepping = parseInt(value, 10);
+        } else if ((key === 'flags' || key === 'Features') && topology.flags.length === 0) {
+          topology.flags = value.toLowerCase().split(/\s+/).filter(Boolean);
+        } else if (key === 'cpu MHz' && currThread) {
+          currThread.frequency.current = parseFloat(value) || currThread.frequency.current;
+        }
+      }
+
+      const cpuDir = '/sys/devices/system/cpu/';
+      const read = (file: string) =>
+        fs
+          .readFile(cpuDir + file, 'utf8')
+          .then((data) => data.trim())
+          .catch(() => '');
+      await Promise.allSettled(
+        topology.cores.map(async (thread) => {
+          const dir = 'cpu' + thread.id + '/';
+          const [socket, core, curFreq, minFreq, maxFreq, files] = await Promise.all([
+            read(dir + 'topology/physical_package_id'),
+            read(dir + 'topology/core_id'),
+            read(dir + 'cpufreq/scaling_cur_freq'),
+            read(dir + 'cpufreq/cpuinfo_min_freq'),
+            read(dir + 'cpufreq/cpuinfo_max_freq'),
+            fs.readdir(cpuDir + dir).catch(() => [] as string[]),
+          ]);
+          if (socket && !Number.isNaN(parseInt(socket, 10))) thread.socket = Math.max(0, parseInt(socket, 10));
+          if (core && !Number.isNaN(parseInt(core, 10))) thread.core = parseInt(core, 10);
+          if (curFreq) thread.frequency.current = parseInt(curFreq, 10) / 1000; // kHz to MHz
+          if (minFreq) thread.frequency.min = parseInt(minFreq, 10) / 1000; // kHz to MHz
+          if (maxFreq) thread.frequency.max = parseInt(maxFreq, 10) / 1000; // kHz to MHz
+          const node = files.find((file) => /^node\d+$/.test(file));
+          if (node) thread.numaNode = parseInt(node.substring(4), 10);
+        }),
+      );
+      const sockets = new Set(topology.cores.map((thread) => thread.socket));
+      topology.sockets = Math.max(1, sockets.size);
+      topology.physicalCores = new Set(topology.cores.map((thread) => thread.socket + ':' + thread.core)).size;
+      const nodes = await fs.readdir('/sys/devices/system/node').catch(() => [] as string[]);
+      const nodeCount = nodes.filter((file) => /^node\d+$/.test(file)).length;
+      if (nodeCount > 0) topology.numaNodes = nodeCount;
+
+      // cache sizes of the first CPU
+      const cacheDirs = await fs.readdir(cpuDir + 'cpu0/cache').catch(() => [] as string[]);
+      await Promise.allSettled(
+        cacheDirs
+          .filter((dir) => dir.startsWith('index'))
+          .map(async (dir) => {
+            const [level, type, size] = await Promise.all([
+              read('cpu0/cache/' + dir + '/level'),
+              read('cpu0/cache/' + dir + '/type'),
+              read('cpu0/cache/' + dir + '/size'),
+            ]);
+            const bytes = parseCacheSize(size);
+            if (bytes === undefined) return;
+            if (level === '1' && type === 'Data') topology.caches.l1d = bytes;
+            else if (level === '1' && type === 'Instruction') topology.caches.l1i = bytes;
+            else if (level === '2') topology.caches.l2 = bytes;
+            else if (level === '3') topology.caches.l3 = bytes;
+          }),
+      );
+      break;
+    }
+
+    case 'darwin': {
+      const output = await execCommand('sysctl hw machdep.cpu').catch(() => '');
+      const values: { [key: string]: string } = {};
+      for (const line of output.split('\n')) {
+        const idx = line.indexOf(':');
+        if (idx > 0) values[line.substring(0, idx).trim()] = line.substring(idx + 1).trim();
+      }
+      const toInt = (key: string) => (values[key] !== undefined ? parseInt(values[key], 10) : NaN);
+      if (values['machdep.cpu.vendor']) topology.vendor = values['machdep.cpu.vendor'];
+      if (!Number.isNaN(toInt('machdep.cpu.family'))) topology.family = toInt('machdep.cpu.family');
+      if (!Number.isNaN(toInt('machdep.cpu.model'))) topology.model = toInt('machdep.cpu.model');
+      if (!Number.isNaN(toInt('machdep.cpu.stepping'))) topology.stepping = toInt('machdep.cpu.stepping');
+      topology.flags = [values['machdep.cpu.features'], values['machdep.cpu.leaf7_features']]
+        .join(' ')
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(Boolean);
+      if (toInt('hw.packages') > 0) topology.sockets = toInt('hw.packages');
+      if (toInt('hw.physicalcpu') > 0) topology.physicalCores = toInt('hw.physicalcpu');
+      if (toInt('hw.l1dcachesize') > 0) topology.caches.l1d = toInt('hw.l1dcachesize');
+      if (toInt('hw.l1icachesize') > 0) topology.caches.l1i = toInt('hw.l1icachesize');
+      if (toInt('hw.l2cachesize') > 0) topology.caches.l2 = toInt('hw.l2cachesize');
+      if (toInt('hw.l3cachesize') > 0) topology.caches.l3 = toInt('hw.l3cachesize');
+      const threadsPerCore = Math.max(1, Math.round(topology.threads / topology.physicalCores));
+      for (const thread of topology.cores) thread.core = Math.floor(thread.id / threadsPerCore);
+      break;
+    }
+
+    case 'win32': {
+      const output = await execCommand(
+        'powershell -Command "Get-CimInstance -ClassName Win32_Processor | Select-Object Manufacturer, Description, NumberOfCores, NumberOfLogicalProcessors, L2CacheSize, L3CacheSize, CurrentClockSpeed, MaxClockSpeed | ConvertTo-Json"',
+      ).catch(() => '');
+      let processors: any[] = [];
+      try {
+        const parsed = JSON.parse(output);
+        processors = Array.isArray(parsed) ? parsed : [parsed]; // single objects are not wrapped in an array
+        // tslint:disable-next-line:no-empty
+      } catch {}
+      if (processors.length === 0) break;
+
+      topology.sockets = processors.length;
+      topology.physicalCores = 0;
+      let threadId = 0;
+      processors.forEach((processor, socket) => {
+        if (processor.Manufacturer) topology.vendor = topology.vendor || processor.Manufacturer;
+        const description = /Family (\d+) Model (\d+) Stepping (\d+)/.exec(processor.Description || ''); // e.g. Intel64 Family 6 Model 167 Stepping 1
+        if (description) {
+          topology.family = parseInt(description[1], 10);
+          topology.model = parseInt(description[2], 10);
+          topology.stepping = parseInt(description[3], 10);
+        }
+        const cores = parseInt(processor.NumberOfCores, 10) || 0;
+        const threads = parseInt(processor.NumberOfLogicalProcessors, 10) || cores;
+        topology.physicalCores += cores;
+        if (processor.L2CacheSize && cores > 0) topology.caches.l2 = (processor.L2CacheSize * 1024) / cores; // total KB of all cores
+        if (processor.L3CacheSize) topology.caches.l3 = processor.L3CacheSize * 1024; // KB to bytes
+        const threadsPerCore = Math.max(1, Math.round(threads / Math.max(1, cores)));
+        for (let i = 0; i < threads && threadId < topology.cores.length; i++, threadId++) {
+          const thread = topology.cores[threadId];
+          thread.socket = socket;
+          thread.core = Math.floor(i / threadsPerCore);
+          if (processor.MaxClockSpeed) thread.frequency.max = processor.MaxClockSpeed;
+          if (!thread.frequency.current && processor.CurrentClockSpeed)
+            thread.frequency.current = processor.CurrentClockSpeed;
+        }
+      });
+      if (topology.physicalCores === 0) topology.physicalCores = topology.threads;
+      break;
+    }
+  }
+
+  return topology;
 }
 
 /**
  * Returns the current CPU utilization.
  * If the computation is not running, it will start the computation and return the initial values.
  *
+ * @param containerScoped If the overall utilization should be relative to the CPU limit of the container (cgroup) instead of the host.
+ * Per core values and the time breakdown always refer to the host.
  * @returns CPU utilization data.
  */
-export async function getCpuUtilization(): Promise<CPUUtilization> {
+export async function getCpuUtilization(containerScoped: boolean = false): Promise<CPUUtilization> {
+  if (containerScoped && !CPU_CGROUP_TRACKING) {
+    CPU_CGROUP_TRACKING = true;
+    if (CPU_COMPUTE_RUNNING) {
+      await computeCgroupCpuUtilization(); // the background computation already runs, so only cgroup values are missing
+      await sleep(CPU_COMPUTE_UTILIZATION_INITIAL_DELAY);
+      await computeCgroupCpuUtilization();
+    }
+  }
   if (!CPU_COMPUTE_RUNNING) {
     await runCpuComputeInterval(); // runs the first computation immediately
     await sleep(CPU_COMPUTE_UTILIZATION_INITIAL_DELAY); // wait a bit to get initial values
     await computeCpuUtilization(); // run second computation immediately to get initial values
   }
+  if (containerScoped && CPU_CGROUP_UTILIZATION !== null)
+    return { ...CPU_UTILIZATION, overall: CPU_CGROUP_UTILIZATION };
   return CPU_UTILIZATION;
 }
 
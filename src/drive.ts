@@ -1,4 +1,5 @@
-import { execCommand } from './utils';
+import fs from 'fs/promises';
+import { execCommand, sleep } from './utils';
 
 const VIRTUAL_DRIVE_TYPES = [
   'devtmpfs', // Device filesystem
@@ -17,6 +18,26 @@ export type DriveUtilization = {
   percentage: number;
 };
 
+export type DriveIOUtilization = {
+  /** Bytes read per second. */
+  readBytes: number;
+
+  /** Bytes written per second. */
+  writeBytes: number;
+
+  /** Read operations per second (IOPS). */
+  readOps: number;
+
+  /** Write operations per second (IOPS). */
+  writeOps: number;
+
+  /** Share of time the device has been busy processing I/O requests as a percentage (0.0-1.0). */
+  busy: number;
+
+  /** Average number of I/O requests queued or being processed by the device. */
+  queueDepth: number;
+};
+
 export type DriveInfo = {
   /** The device name of the drive (e.g., /dev/sda1) */
   filesystem: string;
@@ -32,15 +53,137 @@ export type DriveInfo = {
 
   /** Usage of the drive. */
   utilization: DriveUtilization;
+
+  /** I/O throughput of the underlying block device, if it could be determined. */
+  io?: DriveIOUtilization;
 };
 
+/** Intervall in milliseconds at which drive I/O utilization is computed. */
+export let DRIVE_COMPUTE_UTILIZATION_INTERVAL = 1000;
+
+const DRIVE_COMPUTE_UTILIZATION_INITIAL_DELAY = 50;
+
+let DRIVE_LAST_COMPUTE = 0;
+let DRIVE_LAST_STATS: { [device: string]: number[] } = {};
+let DRIVE_IO_UTILIZATION: { [device: string]: DriveIOUtilization } = {};
+let DRIVE_COMPUTE_RUNNING = false;
+let DRIVE_COMPUTE_TIMEOUT: NodeJS.Timeout | null = null;
+
+async function computeDriveIOUtilization() {
+  const now = Date.now();
+  switch (process.platform) {
+    case 'linux': {
+      const output = await fs.readFile('/proc/diskstats', 'utf8').catch(() => '');
+      const durationMs = now - DRIVE_LAST_COMPUTE;
+      const stats: { [device: string]: number[] } = {};
+      const utilization: { [device: string]: DriveIOUtilization } = {};
+      for (const line of output.split('\n')) {
+        const parts = line.trim().split(/\s+/);
+        if (parts.length < 14) continue;
+        const device = parts[2];
+
+        // reads, sectors read, writes, sectors written, ms doing I/O, weighted ms doing I/O
+        const curr = [3, 5, 7, 9, 12, 13].map((idx) => parseInt(parts[idx], 10) || 0);
+        stats[device] = curr;
+        const prev = DRIVE_LAST_STATS[device];
+        if (!prev || durationMs <= 0) continue;
+        const durationSec = durationMs / 1000;
+        utilization[device] = {
+          readOps: (curr[0] - prev[0]) / durationSec,
+          readBytes: ((curr[1] - prev[1]) * 512) / durationSec, // sectors are always 512 bytes in /proc/diskstats
+          writeOps: (curr[2] - prev[2]) / durationSec,
+          writeBytes: ((curr[3] - prev[3]) * 512) / durationSec,
+          busy: Math.min(1, (curr[4] - prev[4]) / durationMs),
+          queueDepth: (curr[5] - prev[5]) / durationMs,
+        };
+      }
+      DRIVE_LAST_STATS = stats;
+      DRIVE_IO_UTILIZATION = utilization;
+      break;
+    }
+
+    case 'win32': {
+      // performance counters are already rates computed by Windows
+      const output = await execCommand(
+        'powershell -Command "Get-CimInstance -ClassName Win32_PerfFormattedData_PerfDisk_PhysicalDisk | Select-Object Name, DiskReadBytesPersec, DiskWriteBytesPersec, DiskReadsPersec, DiskWritesPersec, PercentIdleTime, AvgDiskQueueLength | Format-List"',
+      ).catch(() => '');
+      const utilization: { [device: string]: DriveIOUtilization } = {};
+      const lines = output.split('\n');
+      let currDevice: string | null = null;
+      // tslint:disable-next-line:prefer-for-of
+      for (let i = 0; i < lines.length; i++) {
+        const [key, value] = lines[i].split(' : ').map((part) => part.trim());
+        if (key === 'Name') {
+          currDevice = value && value !== '_Total' ? value : null; // e.g. "0 C: D:"
+          if (currDevice)
+            utilization[currDevice] = { readBytes: 0, writeBytes: 0, readOps: 0, writeOps: 0, busy: 0, queueDepth: 0 };
+        }
+        if (!currDevice) continue;
+        const num = parseFloat(value) || 0;
+        if (key === 'DiskReadBytesPersec') utilization[currDevice].readBytes = num;
+        else if (key === 'DiskWriteBytesPersec') utilization[currDevice].writeBytes = num;
+        else if (key === 'DiskReadsPersec') utilization[currDevice].readOps = num;
+        else if (key === 'DiskWritesPersec') utilization[currDevice].writeOps = num;
+        else if (key === 'PercentIdleTime') utilization[currDevice].busy = Math.max(0, 1 - num / 100);
+        else if (key === 'AvgDiskQueueLength') utilization[currDevice].queueDepth = num;
+      }
+      DRIVE_IO_UTILIZATION = utilization;
+      break;
+    }
+  }
+  DRIVE_LAST_COMPUTE = now;
+}
+
+async function runDriveComputeInterval() {
+  DRIVE_COMPUTE_RUNNING = true;
+  await computeDriveIOUtilization();
+  if (DRIVE_COMPUTE_RUNNING) {
+    DRIVE_COMPUTE_TIMEOUT = setTimeout(runDriveComputeInterval, Math.max(DRIVE_COMPUTE_UTILIZATION_INTERVAL, 1));
+    DRIVE_COMPUTE_TIMEOUT.unref(); // the computation alone must not keep the process alive
+  }
+}
+
+/**
+ * Stops the computation of drive I/O utilization.
+ * As soon as getDrives (with includeIO) or getDriveIOUtilization is called again, the computation will be restarted.
+ */
+export function stopDriveIOUtilizationComputation() {
+  if (DRIVE_COMPUTE_TIMEOUT) clearTimeout(DRIVE_COMPUTE_TIMEOUT);
+  DRIVE_COMPUTE_TIMEOUT = null;
+  DRIVE_COMPUTE_RUNNING = false;
+}
+
+/**
+ * Checks if the computation of drive I/O utilization is currently running in the background.
+ */
+export function isDriveIOUtilizationComputationRunning(): boolean {
+  return DRIVE_COMPUTE_RUNNING;
+}
+
+/**
+ * Returns the current I/O utilization of the block devices.
+ * If the computation is not running, it will start the computation and return the initial values.
+ *
+ * @returns I/O utilization keyed by device name (e.g. sda, nvme0n1p1 on Linux or "0 C:" on Windows).
+ */
+export async function getDriveIOUtilization(): Promise<{ [device: string]: DriveIOUtilization }> {
+  if (!DRIVE_COMPUTE_RUNNING) {
+    await runDriveComputeInterval(); // runs the first computation immediately
+    await sleep(DRIVE_COMPUTE_UTILIZATION_INITIAL_DELAY); // wait a bit to get initial values
+    await computeDriveIOUtilization(); // run second computation immediately to get initial values
+  }
+  return DRIVE_IO_UTILIZATION;
+}
+
 /**
  * Returns information about the drives on the system (in Windows the logical drives are returned).
  *
  * @param includeVirtual If virtual drives should be included in the results (only relevant for Linux and macOS).
+ * @param includeIO If the I/O utilization of the underlying block devices should be attached (starts the background
+ * computation of getDriveIOUtilization).
  * @returns List of drive information objects.
  */
-export async function getDrives(includeVirtual: boolean = false): Promise<DriveInfo[]> {
+export async function getDrives(includeVirtual: boolean = false, includeIO: boolean = false): Promise<DriveInfo[]> {
   const drives: DriveInfo[] = [];
   switch (process.platform) {
     case 'darwin':
@@ -95,5 +238,286 @@ export async function getDrives(includeVirtual: boolean = false): Promise<DriveI
       break;
     }
   }
+
+  if (!includeIO) return drives;
+
+  // attach I/O utilization of the underlying block devices
+  const ioUtilization = await getDriveIOUtilization();
+  await Promise.allSettled(
+    drives.map(async (drive) => {
+      if (process.platform === 'win32') {
+        const instance = Object.keys(ioUtilization).find((name) => name.split(' ').includes(drive.filesystem));
+        if (instance) drive.io = ioUtilization[instance];
+        return;
+      }
+      if (!drive.filesystem.startsWith('/dev/')) return;
+      const device = (await fs.realpath(drive.filesystem).catch(() => drive.filesystem)).substring(5); // resolves /dev/mapper/* to /dev/dm-*
+      if (ioUtilization[device]) drive.io = ioUtilization[device];
+    }),
+  );
   return drives;
 }
+
+export type SmartHealth = {
+  /** If the overall self-assessment of the drive passed. */
+  passed: boolean;
+
+  /** Current temperature of the drive in degrees Celsius (°C). */
+  temperature?: number;
+
+  /** Number of hours the drive has been powered on. */
+  powerOnHours?: number;
+
+  /** Number of sectors that have been reallocated due to errors. */
+  reallocatedSectors?: number;
+
+  /** Estimated share of the drive's endurance that has been used up as a percentage (0.0-1.0), mostly reported by SSDs. */
+  wearLevel?: number;
+};
+
+export type PhysicalDisk = {
+  /** Name of the block device (e.g., sda, nvme0n1 on Linux or the disk number on Windows). */
+  name: string;
+
+  /** Path to the block device (e.g., /dev/sda on Linux or \\.\PHYSICALDRIVE0 on Windows). */
+  path: string;
+
+  /** Model name of the disk. */
+  model?: string;
+
+  /** Serial number of the disk. */
+  serial?: string;
+
+  /** Name of the vendor of the disk. */
+  vendor?: string;
+
+  /** Size of the disk in bytes. */
+  size: number;
+
+  /** Type of the disk. */
+  type: 'hdd' | 'ssd' | 'nvme' | 'unknown';
+
+  /** Interface over which the disk is connected (e.g., sata, nvme, usb, virtio). */
+  interface?: 'sata' | 'sas' | 'scsi' | 'nvme' | 'usb' | 'virtio' | 'mmc' | string;
+
+  /** Names of the partitions on the disk (e.g., sda1, nvme0n1p1). */
+  partitions: string[];
+
+  /** Mount points (see DriveInfo.mount) of the filesystems located on the disk. */
+  mounts: string[];
+
+  /** SMART health data of the disk (only if requested and smartctl is available). */
+  smart?: SmartHealth;
+};
+
+/**
+ * Guesses the interface of a Linux block device based on its name.
+ *
+ * @param name Name of the block device (e.g., sda, nvme0n1).
+ * @returns Interface name or undefined if unknown.
+ */
+function guessDiskInterface(name: string): string | undefined {
+  if (name.startsWith('nvme')) return 'nvme';
+  if (name.startsWith('vd')) return 'virtio';
+  if (name.startsWith('mmcblk')) return 'mmc';
+  if (name.startsWith('sd')) return 'scsi';
+  return undefined;
+}
+
+/**
+ * Reads the SMART health of a disk using smartctl.
+ *
+ * @param path Path of the device as expected by smartctl (e.g., /dev/sda, /dev/pd0).
+ * @returns SMART health or undefined if not available.
+ */
+async function getSmartHealth(path: string): Promise<SmartHealth | undefined> {
+  // smartctl encodes warnings into the exit code, so output is parsed regardless (stderr would break the JSON)
+  const output = await execCommand('smartctl -j -a ' + path, true, false).catch(() => '');
+  let json: any;
+  try {
+    json = JSON.parse(output);
+  } catch {
+    return undefined;
+  }
+  if (!json?.smart_status) return undefined;
+
+  const smart: SmartHealth = { passed: json.smart_status.passed === true };
+  if (typeof json.temperature?.current === 'number') smart.temperature = json.temperature.current;
+  if (typeof json.power_on_time?.hours === 'number') smart.powerOnHours = json.power_on_time.hours;
+
+  const nvmeLog = json.nvme_smart_health_information_log;
+  if (typeof nvmeLog?.percentage_used === 'number') smart.wearLevel = nvmeLog.percentage_used / 100;
+  if (smart.temperature === undefined && typeof nvmeLog?.temperature === 'number')
+    smart.temperature = nvmeLog.temperature;
+  if (smart.powerOnHours === undefined && typeof nvmeLog?.power_on_hours === 'number')
+    smart.powerOnHours = nvmeLog.power_on_hours;
+
+  for (const attr of json.ata_smart_attributes?.table || []) {
+    if (attr.id === 5 && typeof attr.raw?.value === 'number') {
+      smart.reallocatedSectors = attr.raw.value; // Reallocated_Sector_Ct
+    } else if ((attr.id === 177 || attr.id === 231 || attr.id === 233) && smart.wearLevel === undefined) {
+      // Wear_Leveling_Count, SSD_Life_Left, Media_Wearout_Indicator (normalized value counts down from 100)
+      if (typeof attr.value === 'number') smart.wearLevel = Math.min(1, Math.max(0, 1 - attr.value / 100));
+    }
+  }
+  return smart;
+}
+
+/**
+ * Returns information about the physical disks (block devices) of the system.
+ *
+ * @param includeSmart If SMART health data should be read using smartctl (usually requires root/administrator rights).
+ * @returns List of physical disks.
+ */
+export async function getPhysicalDisks(includeSmart: boolean = false): Promise<PhysicalDisk[]> {
+  const disks: PhysicalDisk[] = [];
+  const smartPaths: string[] = [];
+  switch (process.platform) {
+    case 'linux': {
+      const output = await execCommand('lsblk -J -b -o NAME,TYPE,SIZE,MODEL,SERIAL,VENDOR,ROTA,TRAN,MOUNTPOINT').catch(
+        () => '',
+      );
+      let json: any = null;
+      try {
+        json = JSON.parse(output);
+        // tslint:disable-next-line:no-empty
+      } catch {}
+
+      if (json?.blockdevices) {
+        // collects partitions and mount points of nested block devices (e.g. partitions, LVM volumes)
+        const collect = (device: any, disk: PhysicalDisk) => {
+          if (device.mountpoint) disk.mounts.push(device.mountpoint);
+          for (const child of device.children || []) {
+            if (child.type === 'part') disk.partitions.push(child.name);
+            collect(child, disk);
+          }
+        };
+        for (const device of json.blockdevices) {
+          const name: string = device.name;
+          if (device.type !== 'disk' || name.startsWith('ram') || name.startsWith('zram')) continue;
+          const rotational = device.rota === true || device.rota === '1';
+          const disk: PhysicalDisk = {
+            name,
+            path: '/dev/' + name,
+            size: parseInt(device.size, 10) || 0,
+            type: name.startsWith('nvme') ? 'nvme' : rotational ? 'hdd' : 'ssd',
+            partitions: [],
+            mounts: [],
+          };
+          if (device.model) disk.model = device.model.trim();
+          if (device.serial) disk.serial = device.serial.trim();
+          if (device.vendor) disk.vendor = device.vendor.trim();
+          const iface = device.tran || guessDiskInterface(name);
+          if (iface) disk.interface = iface;
+          collect(device, disk);
+          disks.push(disk);
+        }
+        break;
+      }
+
+      // fallback if lsblk is not available
+      const mountsOutput = await fs.readFile('/proc/mounts', 'utf8').catch(() => '');
+      const mounts = mountsOutput.split('\n').map((line) => line.split(' '));
+      const blockDevices = await fs.readdir('/sys/block').catch(() => [] as string[]);
+      await Promise.allSettled(
+        blockDevices.map(async (name) => {
+          if (name.startsWith('loop') || name.startsWith('ram') || name.startsWith('zram')) return;
+          const read = (file: string) =>
+            fs
+              .readFile('/sys/block/' + name + '/' + file, 'utf8')
+              .then((data) => data.trim())
+              .catch(() => '');
+          const [size, model, serial, vendor, rotational, files] = await Promise.all([
+            read('size'),
+            read('device/model'),
+            read('device/serial').then((value) => value || read('serial')),
+            read('device/vendor'),
+            read('queue/rotational'),
+            fs.readdir('/sys/block/' + name).catch(() => [] as string[]),
+          ]);
+          const disk: PhysicalDisk = {
+            name,
+            path: '/dev/' + name,
+            size: (parseInt(size, 10) || 0) * 512, // size is always in 512 byte sectors
+            type: name.startsWith('nvme')
+              ? 'nvme'
+              : rotational === '1'
+                ? 'hdd'
+                : rotational === '0'
+                  ? 'ssd'
+                  : 'unknown',
+            partitions: files.filter((file) => file.startsWith(name)).sort(),
+            mounts: [],
+          };
+          if (model) disk.model = model;
+          if (serial) disk.serial = serial;
+          if (vendor) disk.vendor = vendor;
+          const iface = guessDiskInterface(name);
+          if (iface) disk.interface = iface;
+          const devices = ['/dev/' + name, ...disk.partitions.map((partition) => '/dev/' + partition)];
+          disk.mounts = mounts.filter(([device]) => devices.includes(device)).map(([, mount]) => mount);
+          disks.push(disk);
+        }),
+      );
+      disks.sort((a, b) => a.name.localeCompare(b.name));
+      break;
+    }
+
+    case 'win32': {
+      const output = await execCommand(
+        'powershell -Command "Get-PhysicalDisk | Select-Object DeviceId, FriendlyName, Manufacturer, Model, SerialNumber, MediaType, BusType, Size | ConvertTo-Json"',
+      ).catch(() => '');
+      const partitionsOutput = await execCommand(
+        'powershell -Command "Get-Partition | Select-Object DiskNumber, PartitionNumber, DriveLetter | ConvertTo-Json"',
+      ).catch(() => '');
+      const drives = await getDrives(true).catch(() => [] as DriveInfo[]); // to report mounts as in DriveInfo.mount
+      let json: any[] = [];
+      let partitions: any[] = [];
+      try {
+        const parsed = JSON.parse(output);
+        json = Array.isArray(parsed) ? parsed : [parsed]; // single objects are not wrapped in an array
+        const parsedPartitions = JSON.parse(partitionsOutput);
+        partitions = Array.isArray(parsedPartitions) ? parsedPartitions : [parsedPartitions];
+        // tslint:disable-next-line:no-empty
+      } catch {}
+      for (const device of json) {
+        const name = String(device.DeviceId ?? '');
+        const mediaType = String(device.MediaType ?? '').toLowerCase();
+        const busType = String(device.BusType ?? '').toLowerCase();
+        const disk: PhysicalDisk = {
+          name,
+          path: '\\\\.\\PHYSICALDRIVE' + name,
+          size: parseInt(device.Size, 10) || 0,
+          type: busType === 'nvme' ? 'nvme' : mediaType === 'hdd' ? 'hdd' : mediaType === 'ssd' ? 'ssd' : 'unknown',
+          interface: busType || undefined,
+          partitions: [],
+          mounts: [],
+        };
+        if (device.Model || device.FriendlyName) disk.model = String(device.Model || device.FriendlyName).trim();
+        if (device.SerialNumber) disk.serial = String(device.SerialNumber).trim();
+        if (device.Manufacturer) disk.vendor = String(device.Manufacturer).trim();
+        for (const partition of partitions) {
+          if (String(partition.DiskNumber) !== name) continue;
+          disk.partitions.push(String(partition.PartitionNumber));
+          const letter = String(partition.DriveLetter ?? '').trim();
+          if (!letter || letter === '\u0000') continue;
+          const drive = drives.find((d) => d.filesystem.toUpperCase() === letter.toUpperCase() + ':');
+          disk.mounts.push(drive?.mount ?? letter + ':');
+        }
+        smartPaths.push('/dev/pd' + name);
+        disks.push(disk);
+      }
+      break;
+    }
+  }
+
+  if (includeSmart) {
+    await Promise.allSettled(
+      disks.map(async (disk, i) => {
+        const smart = await getSmartHealth(smartPaths[i] || disk.path);
+        if (smart) disk.smart = smart;
+      }),
+    );
+  }
+  return disks;
+}
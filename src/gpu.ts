@@ -1,3 +1,6 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs/promises';
+import { getSensors } from './sensor';
 import { execCommand } from './utils';
 
 export type GPUUtilization = {
@@ -18,6 +21,21 @@ export type GPUUtilization = {
   /** GPU memory utilization as a percentage (0.0-1.0). */
   memory?: number;
 
+  /** Used GPU memory (VRAM) in bytes. */
+  memoryUsed?: number;
+
+  /** Free GPU memory (VRAM) in bytes. */
+  memoryFree?: number;
+
+  /** Current performance state of the GPU from P0 (maximum performance) to P12 (minimum performance). */
+  performanceState?: string;
+
+  /**
+   * Reasons why the clocks are currently reduced (e.g., gpu_idle, sw_power_cap, hw_thermal_slowdown).
+   * Empty if the clocks are not reduced.
+   */
+  throttleReasons?: string[];
+
   /** GPU memory temperature in Celsius. */
   memoryTemperature?: number;
 
@@ -34,6 +52,31 @@ export type GPUUtilization = {
   powerDraw?: number;
 };
 
+export type SampledGPUUtilization = {
+  /** Index of the GPU as reported by nvidia-smi. */
+  index: number;
+
+  /** PCI bus ID of the GPU (e.g., 01:00.0), see GPU.busId. */
+  busId?: string;
+
+  /** UUID of the GPU, see GPU.uuid. */
+  uuid?: string;
+
+  /** Latest utilization of the GPU. */
+  utilization: GPUUtilization;
+};
+
+export type GPUMigDevice = {
+  /** Index of the MIG device within its GPU. */
+  index: number;
+
+  /** Profile of the MIG device (e.g., 1g.5gb, 3g.20gb). */
+  profile: string;
+
+  /** UUID of the MIG device (e.g., MIG-c6d4f1ef-...). */
+  uuid: string;
+};
+
 export type GPU = {
   /** Maximum clock speed of the GPU. */
   clockMaxSpeed?: {
@@ -71,6 +114,51 @@ export type GPU = {
   /** Index of the GPU device. */
   index?: number;
 
+  /** PCI bus ID of the GPU (e.g., 01:00.0 or 0001:01:00.0 for non-default PCI domains). Stable across reboots. */
+  busId?: string;
+
+  /** UUID of the GPU (e.g., GPU-5d5ba0d6-...), currently only available for NVIDIA GPUs. */
+  uuid?: string;
+
+  /** PCIe link of the GPU. */
+  pcie?: {
+    /** Current PCIe generation of the link (can be lower than the maximum while idle). */
+    generation?: number;
+
+    /** Maximum PCIe generation supported by the GPU and the system. */
+    maxGeneration?: number;
+
+    /** Current number of PCIe lanes. */
+    width?: number;
+
+    /** Maximum number of PCIe lanes. */
+    maxWidth?: number;
+  };
+
+  /** Power limit of the GPU in watts. */
+  powerLimit?: number;
+
+  /** Number of ECC memory errors since the driver has been loaded. */
+  eccErrors?: {
+    /** Number of single bit errors that have been corrected. */
+    corrected?: number;
+
+    /** Number of multi bit errors that could not be corrected. */
+    uncorrected?: number;
+  };
+
+  /** Compute mode of the GPU (e.g., default, exclusive-process, prohibited). */
+  computeMode?: string;
+
+  /** If multi-instance GPU (MIG) mode is enabled. */
+  migMode?: boolean;
+
+  /** MIG devices the GPU is partitioned into if MIG mode is enabled. */
+  migDevices?: GPUMigDevice[];
+
+  /** Virtualization mode of the GPU (e.g., none, pass-through, vgpu, host-vgpu). */
+  virtualizationMode?: string;
+
   /** If a physical display/monitor is attached to one of the GPU's connector.s */
   displayAttached?: boolean;
 
@@ -81,33 +169,520 @@ export type GPU = {
   utilization?: GPUUtilization;
 };
 
-export async function getGPUs(): Promise<GPU[]> {
+/** Vendor names by PCI vendor ID. */
+const PCI_VENDORS: { [id: string]: string } = { '0x1002': 'AMD', '0x8086': 'Intel', '0x10de': 'NVIDIA' };
+
+/** Fields queried from nvidia-smi that are supported by all driver versions. */
+export const NVIDIA_SMI_FIELDS = [
+  'name',
+  'index',
+  'pci.bus_id',
+  'uuid',
+  'display_attached',
+  'display_active',
+  'fan.speed',
+  'memory.total',
+  'memory.used',
+  'memory.free',
+  'utilization.gpu',
+  'utilization.memory',
+  'temperature.gpu',
+  'temperature.memory',
+  'power.draw',
+  'power.limit',
+  'pstate',
+  'clocks_throttle_reasons.active',
+  'clocks.current.graphics',
+  'clocks.current.sm',
+  'clocks.current.memory',
+  'clocks.current.video',
+  'clocks.max.graphics',
+  'clocks.max.sm',
+  'clocks.max.memory',
+  'pcie.link.gen.current',
+  'pcie.link.gen.max',
+  'pcie.link.width.current',
+  'pcie.link.width.max',
+  'ecc.errors.corrected.volatile.total',
+  'ecc.errors.uncorrected.volatile.total',
+  'compute_mode',
+  'driver_version',
+];
+
+/** Fields of newer drivers, nvidia-smi rejects the whole query if one of them is unknown. */
+export const NVIDIA_SMI_EXTENDED_FIELDS = [...NVIDIA_SMI_FIELDS, 'mig.mode.current', 'virtualization_mode'];
+
+/** Intervall in milliseconds at which nvidia-smi reports new readings while GPU sampling is running. */
+export let GPU_SAMPLING_INTERVAL = 1000;
+
+let GPU_SAMPLING_PROCESS: ChildProcess | null = null;
+let GPU_SAMPLING_RESTART_TIMEOUT: NodeJS.Timeout | null = null;
+const GPU_SAMPLES: { [index: number]: { values: { [field: string]: string }; timestamp: number } } = {};
+
+/** Names of the bits of the clock throttle reasons bitmask reported by nvidia-smi. */
+const NVIDIA_THROTTLE_REASONS: [number, string][] = [
+  [0x1, 'gpu_idle'],
+  [0x2, 'applications_clocks_setting'],
+  [0x4, 'sw_power_cap'],
+  [0x8, 'hw_slowdown'],
+  [0x10, 'sync_boost'],
+  [0x20, 'sw_thermal_slowdown'],
+  [0x40, 'hw_thermal_slowdown'],
+  [0x80, 'hw_power_brake_slowdown'],
+  [0x100, 'display_clock_setting'],
+];
+
+/**
+ * Normalizes a PCI bus ID to the short format used by lspci (e.g., 00000000:01:00.0 to 01:00.0).
+ */
+function normalizePciBusId(busId: string): string {
+  const parts = busId.trim().toLowerCase().split(':');
+  // strip the domain if it is the default domain 0
+  if (parts.length === 3 && parseInt(parts[0], 16) === 0) parts.shift();
+  return parts.join(':');
+}
+
+/**
+ * Queries all GPUs via nvidia-smi.
+ *
+ * @returns Values of the GPUs by nvidia-smi field name (e.g., memory.total) or an empty array if nvidia-smi is not available.
+ */
+async function queryNvidiaSmi(): Promise<{ [field: string]: string }[]> {
+  const query = (fields: string[]) =>
+    execCommand('nvidia-smi --query-gpu=' + fields.join(',') + ' --format=csv,nounits,noheader').then((output) =>
+      output
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line) => parseNvidiaSmiLine(line, fields)),
+    );
+  return query(NVIDIA_SMI_EXTENDED_FIELDS)
+    .catch(() => query(NVIDIA_SMI_FIELDS))
+    .catch(() => []);
+}
+
+/**
+ * Parses a CSV line of nvidia-smi.
+ *
+ * @param line Line of the output of nvidia-smi --query-gpu=... --format=csv,nounits,noheader.
+ * @param fields Queried fields in the order of the columns.
+ * @returns Values by field name (unsupported values like "[N/A]" are omitted).
+ */
+export function parseNvidiaSmiLine(line: string, fields: string[]): { [field: string]: string } {
+  const values: { [field: string]: string } = {};
+  line.split(',').forEach((value, i) => {
+    const trimmed = value.trim();
+    if (i < fields.length && trimmed && !trimmed.startsWith('[')) values[fields[i]] = trimmed;
+  });
+  return values;
+}
+
+/**
+ * Applies the values queried from nvidia-smi to a GPU.
+ *
+ * @param gpu GPU to update.
+ * @param values Values by nvidia-smi field name.
+ */
+export function applyNvidiaSmiValues(gpu: GPU, values: { [field: string]: string }): void {
+  const num = (field: string) => {
+    const value = parseFloat(values[field] ?? '');
+    return Number.isNaN(value) ? undefined : value;
+  };
+  const int = (field: string) => {
+    const value = parseInt(values[field] ?? '', 10);
+    return Number.isNaN(value) ? undefined : value;
+  };
+  const flag = (field: string) =>
+    values[field] !== undefined ? ['yes', 'enabled', '1'].includes(values[field].toLowerCase()) : undefined;
+  const utilization = (gpu.utilization = gpu.utilization || ({ clockSpeed: {} } as GPUUtilization));
+  utilization.clockSpeed = utilization.clockSpeed || {};
+
+  if (values.uuid) gpu.uuid = values.uuid;
+  if (values['pci.bus_id']) gpu.busId = normalizePciBusId(values['pci.bus_id']);
+  if (int('index') !== undefined) gpu.index = int('index');
+  if (values.driver_version && !gpu.driverVersion) gpu.driverVersion = values.driver_version;
+  if (flag('display_attached') !== undefined) gpu.displayAttached = flag('display_attached');
+  if (flag('display_active') !== undefined) gpu.displayActive = flag('display_active');
+  if (int('memory.total') !== undefined) gpu.memory = int('memory.total')! * 1024 * 1024; // convert MiB to bytes
+  if (num('power.limit') !== undefined) gpu.powerLimit = num('power.limit');
+  if (values.compute_mode) gpu.computeMode = values.compute_mode.toLowerCase().replace(/_/g, '-');
+  if (flag('mig.mode.current') !== undefined) gpu.migMode = flag('mig.mode.current');
+  if (values.virtualization_mode)
+    gpu.virtualizationMode = values.virtualization_mode.toLowerCase().replace(/[\s_]+/g, '-');
+
+  const pcie = {
+    generation: int('pcie.link.gen.current'),
+    maxGeneration: int('pcie.link.gen.max'),
+    width: int('pcie.link.width.current'),
+    maxWidth: int('pcie.link.width.max'),
+  };
+  if (Object.values(pcie).some((value) => value !== undefined)) gpu.pcie = pcie;
+  const eccErrors = {
+    corrected: int('ecc.errors.corrected.volatile.total'),
+    uncorrected: int('ecc.errors.uncorrected.volatile.total'),
+  };
+  if (eccErrors.corrected !== undefined || eccErrors.uncorrected !== undefined) gpu.eccErrors = eccErrors;
+
+  const clockMaxSpeed = {
+    graphics: int('clocks.max.graphics'),
+    memory: int('clocks.max.memory'),
+    sm: int('clocks.max.sm'),
+  };
+  if (Object.values(clockMaxSpeed).some((value) => value !== undefined))
+    gpu.clockMaxSpeed = { ...gpu.clockMaxSpeed, ...clockMaxSpeed };
+
+  if (num('fan.speed') !== undefined) utilization.fanSpeed = num('fan.speed')! / 100;
+  if (num('utilization.gpu') !== undefined) utilization.processing = num('utilization.gpu')! / 100;
+  if (num('utilization.memory') !== undefined) utilization.memory = num('utilization.memory')! / 100;
+  if (int('memory.used') !== undefined) utilization.memoryUsed = int('memory.used')! * 1024 * 1024;
+  if (int('memory.free') !== undefined) utilization.memoryFree = int('memory.free')! * 1024 * 1024;
+  if (num('temperature.gpu') !== undefined) utilization.temperature = num('temperature.gpu');
+  if (num('temperature.memory') !== undefined) utilization.memoryTemperature = num('temperature.memory');
+  if (num('power.draw') !== undefined) utilization.powerDraw = num('power.draw');
+  if (values.pstate) utilization.performanceState = values.pstate;
+  if (int('clocks.current.graphics') !== undefined) utilization.clockSpeed.graphics = int('clocks.current.graphics');
+  if (int('clocks.current.memory') !== undefined) utilization.clockSpeed.memory = int('clocks.current.memory');
+  if (int('clocks.current.sm') !== undefined) utilization.clockSpeed.sm = int('clocks.current.sm');
+  if (int('clocks.current.video') !== undefined) utilization.clockSpeed.video = int('clocks.current.video');
+
+  // bitmask in hex (e.g. 0x0000000000000004)
+  const throttleReasons = parseInt(values['clocks_throttle_reasons.active'] ?? '', 16);
+  if (!Number.isNaN(throttleReasons))
+    utilization.throttleReasons = NVIDIA_THROTTLE_REASONS.filter(
+      ([bit]) => Math.floor(throttleReasons / bit) % 2 === 1,
+    ).map(([, reason]) => reason);
+}
+
+/**
+ * Parses the MIG devices from the output of nvidia-smi -L.
+ *
+ * @param output Output with lines like "GPU 0: NVIDIA A100 (UUID: GPU-...)" followed by "  MIG 1g.5gb Device 0: (UUID: MIG-...)".
+ * @returns MIG devices by UUID of their GPU.
+ */
+export function parseNvidiaSmiMigDevices(output: string): { [gpuUuid: string]: GPUMigDevice[] } {
+  const devices: { [gpuUuid: string]: GPUMigDevice[] } = {};
+  let gpuUuid: string | null = null;
+  for (const line of output.split('\n')) {
+    const gpuMatch = line.match(/^GPU \d+:.*\(UUID: ([^)]+)\)/);
+    if (gpuMatch) {
+      gpuUuid = gpuMatch[1].trim();
+      continue;
+    }
+    const migMatch = line.match(/^\s+MIG (\S+)\s+Device\s+(\d+):\s*\(UUID: ([^)]+)\)/);
+    if (!migMatch || !gpuUuid) continue;
+    devices[gpuUuid] = devices[gpuUuid] || [];
+    devices[gpuUuid].push({ index: parseInt(migMatch[2], 10), profile: migMatch[1], uuid: migMatch[3].trim() });
+  }
+  return devices;
+}
+
+/**
+ * Parses a DPM clock table of amdgpu (e.g. pp_dpm_sclk with lines like "1: 1800Mhz *").
+ *
+ * @param content Content of the clock table where the current level is marked with an asterisk.
+ * @returns Current and maximum frequency in MHz.
+ */
+export function parseAmdDpmClocks(content: string): { current?: number; max?: number } {
+  const result: { current?: number; max?: number } = {};
+  for (const line of content.split('\n')) {
+    const match = line.match(/^\s*\d+:\s*(\d+)\s*mhz(\s*\*)?/i);
+    if (!match) continue;
+    const mhz = parseInt(match[1], 10);
+    if (match[2]) result.current = mhz;
+    result.max = Math.max(result.max ?? 0, mhz);
+  }
+  return result;
+}
+
+/**
+ * Parses the JSON output of intel_gpu_top which is a stream of sample objects
+ * (older versions do not separate them by commas or wrap them in an array).
+ *
+ * @param output Output of intel_gpu_top -J.
+ * @returns Last complete sample or null if none could be parsed.
+ */
+export function parseIntelGpuTop(output: string): any | null {
+  let last: any = null;
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < output.length; i++) {
+    const char = output[i];
+    if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth !== 0) continue;
+      try {
+        last = JSON.parse(output.slice(start, i + 1));
+        // tslint:disable-next-line:no-empty
+      } catch {}
+    }
+  }
+  return last;
+}
+
+/**
+ * Spawns nvidia-smi in loop mode and stores every reported line in GPU_SAMPLES.
+ *
+ * @param fields Fields to query.
+ * @param interval Intervall in milliseconds at which nvidia-smi reports new readings.
+ */
+function spawnGPUSampling(fields: string[], interval: number) {
+  const child = spawn(
+    'nvidia-smi',
+    ['--query-gpu=' + fields.join(','), '--format=csv,nounits,noheader', '-lms', String(interval)],
+    { windowsHide: true, stdio: ['ignore', 'pipe', 'ignore'] },
+  );
+  GPU_SAMPLING_PROCESS = child;
+  let buffer = '';
+  let received = false;
+  child.stdout?.on('data', (data) => {
+    buffer += data.toString();
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? ''; // last line is incomplete
+    for (const line of lines) {
+      const values = parseNvidiaSmiLine(line, fields);
+      const index = parseInt(values.index ?? '', 10);
+      if (Number.isNaN(index)) continue;
+      GPU_SAMPLES[index] = { values, timestamp: Date.now() };
+      received = true;
+    }
+  });
+  const onExit = () => {
+    if (GPU_SAMPLING_PROCESS !== child) return; // already stopped or restarted
+    GPU_SAMPLING_PROCESS = null;
+    if (received) {
+      // nvidia-smi exited while sampling (e.g. driver reload), restart it after one interval
+      GPU_SAMPLING_RESTART_TIMEOUT = setTimeout(() => {
+        GPU_SAMPLING_RESTART_TIMEOUT = null;
+        spawnGPUSampling(fields, interval);
+      }, interval);
+    } else if (fields === NVIDIA_SMI_EXTENDED_FIELDS) {
+      spawnGPUSampling(NVIDIA_SMI_FIELDS, interval); // older drivers reject the extended fields before reporting anything
+    }
+  };
+  child.on('error', onExit); // e.g. nvidia-smi is not installed
+  child.on('close', onExit);
+}
+
+/**
+ * Starts a long-lived nvidia-smi process that reports the readings of all NVIDIA GPUs at the given interval.
+ * While the sampling is running, getGPUs() and getTemperatures() use the latest readings instead of spawning nvidia-smi on every call.
+ * Does nothing if the sampling is already running. If nvidia-smi is not available, the sampling stops by itself.
+ * If nvidia-smi exits after it has reported readings (e.g. because the driver has been reloaded), it is restarted after one interval.
+ *
+ * @param interval Intervall in milliseconds at which the readings are reported (default GPU_SAMPLING_INTERVAL).
+ */
+export function startGPUSampling(interval: number = GPU_SAMPLING_INTERVAL) {
+  if (GPU_SAMPLING_PROCESS || GPU_SAMPLING_RESTART_TIMEOUT) return;
+  GPU_SAMPLING_INTERVAL = Math.max(interval, 100);
+  spawnGPUSampling(NVIDIA_SMI_EXTENDED_FIELDS, GPU_SAMPLING_INTERVAL);
+}
+
+/**
+ * Stops the GPU sampling and terminates its nvidia-smi process.
+ */
+export function stopGPUSampling() {
+  const child = GPU_SAMPLING_PROCESS;
+  GPU_SAMPLING_PROCESS = null;
+  if (child && child.exitCode === null) child.kill();
+  if (GPU_SAMPLING_RESTART_TIMEOUT) clearTimeout(GPU_SAMPLING_RESTART_TIMEOUT);
+  GPU_SAMPLING_RESTART_TIMEOUT = null;
+  for (const index of Object.keys(GPU_SAMPLES)) delete GPU_SAMPLES[parseInt(index, 10)];
+}
+
+/**
+ * Returns the latest values reported by the GPU sampling.
+ * Readings that have not been updated for three intervals (e.g. the GPU has been removed) are ignored.
+ *
+ * @returns Values by nvidia-smi field name ordered by GPU index or null if the sampling is not running or has not reported yet.
+ */
+function getGPUSamples(): { [field: string]: string }[] | null {
+  if (!GPU_SAMPLING_PROCESS && !GPU_SAMPLING_RESTART_TIMEOUT) return null;
+  const minTimestamp = Date.now() - 3 * GPU_SAMPLING_INTERVAL;
+  const samples = Object.entries(GPU_SAMPLES)
+    .filter(([, sample]) => sample.timestamp >= minTimestamp)
+    .sort(([a], [b]) => parseInt(a, 10) - parseInt(b, 10))
+    .map(([, sample]) => sample.values);
+  return samples.length > 0 ? samples : null;
+}
+
+/**
+ * Returns the latest utilization of the NVIDIA GPUs reported by the GPU sampling (see startGPUSampling()).
+ *
+ * @returns Utilization of each sampled GPU ordered by index or null if the sampling is not running or has not reported yet.
+ */
+export function getSampledGPUUtilization(): SampledGPUUtilization[] | null {
+  const samples = getGPUSamples();
+  if (!samples) return null;
+  return samples.map((values) => {
+    const gpu = {} as GPU;
+    applyNvidiaSmiValues(gpu, values);
+    const sample: SampledGPUUtilization = { index: gpu.index!, utilization: gpu.utilization! }; // lines without index are not sampled
+    if (gpu.busId) sample.busId = gpu.busId;
+    if (gpu.uuid) sample.uuid = gpu.uuid;
+    return sample;
+  });
+}
+
+/**
+ * Reads the AMD (amdgpu) and Intel (i915, xe) GPUs from the DRM subsystem in /sys/class/drm.
+ * NVIDIA GPUs using the proprietary driver are skipped as they are covered by nvidia-smi.
+ *
+ * @param includeIntelEngines If the engine utilization of Intel GPUs should be sampled using intel_gpu_top.
+ * @returns GPUs with their PCI address (e.g., 03:00.0) as ID.
+ */
+async function getLinuxDrmGPUs(includeIntelEngines: boolean): Promise<GPU[]> {
+  const cards = (await fs.readdir('/sys/class/drm').catch(() => [] as string[])).filter((card) =>
+    /^card\d+$/.test(card),
+  );
+  if (cards.length === 0) return [];
+  const sensors = await getSensors(['temperature', 'fan', 'power']);
+
+  const gpus = await Promise.all(
+    cards
+      .sort((a, b) => parseInt(a.slice(4), 10) - parseInt(b.slice(4), 10))
+      .map(async (card): Promise<GPU | null> => {
+        const dir = '/sys/class/drm/' + card + '/';
+        const read = (file: string) =>
+          fs
+            .readFile(dir + file, 'utf8')
+            .then((data) => data.trim())
+            .catch(() => '');
+        const readNum = (file: string) => read(file).then((value) => (value ? parseInt(value, 10) : NaN));
+        const [vendorId, deviceId, devicePath, driverPath, hwmonDevices] = await Promise.all([
+          read('device/vendor'),
+          read('device/device'),
+          fs.realpath(dir + 'device').catch(() => ''),
+          fs.readlink(dir + 'device/driver').catch(() => ''),
+          fs.readdir(dir + 'device/hwmon').catch(() => [] as string[]),
+        ]);
+        const driver = driverPath.split('/').pop() || '';
+        if (!devicePath || driver === 'nvidia') return null;
+
+        const address = normalizePciBusId(devicePath.split('/').pop() || ''); // lspci omits the default domain
+        const vendor = PCI_VENDORS[vendorId] ?? vendorId;
+        const gpu: GPU = {
+          id: address,
+          busId: address,
+          name: vendor + ' GPU ' + vendorId.replace(/^0x/, '') + ':' + deviceId.replace(/^0x/, ''),
+          status: 'ok',
+          utilization: { clockSpeed: {} },
+        };
+        const utilization = gpu.utilization!;
+
+        // temperature, power and fan of the GPU are exposed via its hwmon device
+        const gpuSensors = sensors.filter((sensor) => hwmonDevices.includes(sensor.device));
+        const temps = gpuSensors.filter((sensor) => sensor.type === 'temperature');
+        const edgeTemp = temps.find((sensor) => sensor.label === 'edge') ?? temps[0];
+        if (edgeTemp) utilization.temperature = edgeTemp.value;
+        const memTemp = temps.find((sensor) => sensor.label === 'mem' || sensor.label === 'vram');
+        if (memTemp) utilization.memoryTemperature = memTemp.value;
+        const power = gpuSensors.find((sensor) => sensor.type === 'power');
+        if (power) utilization.powerDraw = power.value;
+        const fan = gpuSensors.find((sensor) => sensor.type === 'fan');
+        if (fan && fan.max) utilization.fanSpeed = Math.min(1, fan.value / fan.max);
+
+        if (driver === 'amdgpu') {
+          const [busy, memBusy, vramTotal, vramUsed, sclk, mclk] = await Promise.all([
+            readNum('device/gpu_busy_percent'),
+            readNum('device/mem_busy_percent'),
+            readNum('device/mem_info_vram_total'),
+            readNum('device/mem_info_vram_used'),
+            read('device/pp_dpm_sclk'),
+            read('device/pp_dpm_mclk'),
+          ]);
+          if (!Number.isNaN(busy)) utilization.processing = busy / 100;
+          if (!Number.isNaN(memBusy)) utilization.memory = memBusy / 100;
+          if (!Number.isNaN(vramTotal)) gpu.memory = vramTotal;
+          if (!Number.isNaN(vramUsed)) utilization.memoryUsed = vramUsed;
+          const graphicsClocks = parseAmdDpmClocks(sclk);
+          const memoryClocks = parseAmdDpmClocks(mclk);
+          if (graphicsClocks.current !== undefined) utilization.clockSpeed.graphics = graphicsClocks.current;
+          if (memoryClocks.current !== undefined) utilization.clockSpeed.memory = memoryClocks.current;
+          if (graphicsClocks.max !== undefined || memoryClocks.max !== undefined)
+            gpu.clockMaxSpeed = { graphics: graphicsClocks.max, memory: memoryClocks.max };
+        } else if (driver === 'i915' || driver === 'xe') {
+          // i915 exposes the frequencies on the card, xe per tile and GT
+          const [curFreq, maxFreq] = await Promise.all([
+            readNum('gt_cur_freq_mhz').then((mhz) =>
+              Number.isNaN(mhz) ? readNum('device/tile0/gt0/freq0/cur_freq') : mhz,
+            ),
+            readNum('gt_max_freq_mhz').then((mhz) =>
+              Number.isNaN(mhz) ? readNum('device/tile0/gt0/freq0/max_freq') : mhz,
+            ),
+          ]);
+          if (!Number.isNaN(curFreq)) utilization.clockSpeed.graphics = curFreq;
+          if (!Number.isNaN(maxFreq)) gpu.clockMaxSpeed = { graphics: maxFreq };
+
+          // engine utilization is only available via perf counters (intel_gpu_top needs root or CAP_PERFMON)
+          if (!includeIntelEngines) return gpu; // intel_gpu_top has to sample for a second
+          const output = await execCommand('timeout 1.5 intel_gpu_top -J -s 1000 -d drm:/dev/dri/' + card, true).catch(
+            () => '',
+          );
+          const sample = parseIntelGpuTop(output);
+          if (sample) {
+            const busyValues = Object.values(sample.engines ?? {})
+              .map((engine: any) => parseFloat(engine?.busy))
+              .filter((value) => !Number.isNaN(value));
+            if (busyValues.length > 0) utilization.processing = Math.min(1, Math.max(...busyValues) / 100);
+            const actualFreq = parseFloat(sample.frequency?.actual);
+            if (!Number.isNaN(actualFreq)) utilization.clockSpeed.graphics = Math.round(actualFreq);
+            const gpuPower = parseFloat(sample.power?.GPU ?? sample.power?.gpu);
+            if (!Number.isNaN(gpuPower) && utilization.powerDraw === undefined) utilization.powerDraw = gpuPower;
+          }
+        }
+        return gpu;
+      }),
+  );
+  return gpus.filter((gpu): gpu is GPU => gpu !== null);
+}
+
+/**
+ * Returns information about the GPUs of the system.
+ *
+ * @param includeIntelEngines If the engine utilization of Intel GPUs should be sampled using intel_gpu_top on Linux
+ * (requires root or CAP_PERFMON and delays the call by about 1.5 seconds).
+ * @returns List of GPUs.
+ */
+export async function getGPUs(includeIntelEngines: boolean = false): Promise<GPU[]> {
   const gpus: GPU[] = [];
   switch (process.platform) {
     case 'linux': {
-      const output = await execCommand('lspci -k | grep -i -A3 "\[vga\]\|\[3d\]"').catch(() => '');
-      const lines = output.split('\n');
-      let curr: GPU | null = null;
-      // tslint:disable-next-line:prefer-for-of
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue; // skip empty lines
-        if (line.startsWith('00:')) {
-          // new GPU found, push current if exists
-          if (curr) gpus.push(curr);
-          curr = {} as GPU;
-          curr.id = line.split(' ')[0];
-          curr.name = line.split(':')[2].trim();
-          curr.status = 'ok'; // assume ok, will update later if needed
+      // machine readable format with class codes, e.g. 01:00.0 "VGA compatible controller [0300]" "NVIDIA Corporation [10de]" "AD102 [GeForce RTX 4090] [2684]" ...
+      const output = await execCommand('lspci -mm -nn').catch(() => '');
+      for (const line of output.split('\n')) {
+        const match = line.match(/^(\S+)\s+"([^"]*)"\s+"([^"]*)"\s+"([^"]*)"/);
+        // display controllers: 0300 VGA, 0302 3D, 0380 other
+        if (!match || !/\[03(00|02|80)\]$/.test(match[2])) continue;
+        const busId = normalizePciBusId(match[1]);
+        const stripId = (value: string) => value.replace(/\s*\[[0-9a-f]{4}\]$/i, '').trim();
+        gpus.push({ id: busId, busId, name: stripId(match[3]) + ' ' + stripId(match[4]), status: 'ok' });
+      }
+
+      // utilization of AMD and Intel GPUs from sysfs
+      for (const drmGPU of await getLinuxDrmGPUs(includeIntelEngines)) {
+        const gpu = gpus.find((g) => g.id === drmGPU.id);
+        if (!gpu) {
+          gpus.push(drmGPU);
+          continue;
         }
+        if (drmGPU.memory !== undefined) gpu.memory = drmGPU.memory;
+        if (drmGPU.clockMaxSpeed) gpu.clockMaxSpeed = drmGPU.clockMaxSpeed;
+        gpu.utilization = drmGPU.utilization;
       }
       break;
     }
 
     case 'win32': {
-      const output = await execCommand(
-        'powershell -Command "Get-CimInstance -ClassName Win32_VideoController | Format-List"',
-      ).catch(() => '');
+      const [output, locationOutput] = await Promise.all([
+        execCommand('powershell -Command "Get-CimInstance -ClassName Win32_VideoController | Format-List"').catch(
+          () => '',
+        ),
+        execCommand(
+          'powershell -Command "Get-PnpDevice -Class Display -PresentOnly | ForEach-Object { [PSCustomObject]@{ InstanceId = $_.InstanceId; Location = (Get-PnpDeviceProperty -InstanceId $_.InstanceId -KeyName DEVPKEY_Device_LocationInfo).Data } } | ConvertTo-Json"',
+        ).catch(() => ''),
+      ]);
       const lines = output.split('\n');
       let curr: GPU | null = null;
       // tslint:disable-next-line:prefer-for-of
@@ -147,119 +722,211 @@ export async function getGPUs(): Promise<GPU[]> {
         }
       }
       if (curr) gpus.push(curr);
+
+      // location is reported as "PCI bus 1, device 0, function 0"
+      let locations: any[] = [];
+      try {
+        const parsed = JSON.parse(locationOutput);
+        locations = Array.isArray(parsed) ? parsed : [parsed]; // single objects are not wrapped in an array
+        // tslint:disable-next-line:no-empty
+      } catch {}
+      for (const location of locations) {
+        const match = String(location?.Location ?? '').match(/PCI bus (\d+), device (\d+), function (\d+)/i);
+        const gpu = gpus.find((g) => g.id && g.id.toLowerCase() === String(location?.InstanceId ?? '').toLowerCase());
+        if (!match || !gpu) continue;
+        const [bus, device, fn] = match.slice(1).map((value) => parseInt(value, 10));
+        gpu.busId =
+          bus.toString(16).padStart(2, '0') + ':' + device.toString(16).padStart(2, '0') + '.' + fn.toString(16);
+      }
       break;
     }
   }
 
   // nvidia-smi for more detailed info
   {
-    const output = await execCommand(
-      'nvidia-smi --query-gpu=name,index,display_attached,display_active,fan.speed,memory.total,utilization.gpu,utilization.memory,temperature.gpu,temperature.memory,power.draw,clocks.current.graphics,clocks.current.sm,clocks.current.memory,clocks.current.memory,clocks.max.graphics,clocks.max.sm,clocks.max.memory --format=csv,nounits,noheader',
-    ).catch(() => '');
-    const lines = output.split('\n').filter((line) => line.trim() !== '');
-    const updatedIndexes = new Set<number>();
-    // tslint:disable-next-line:prefer-for-of
-    for (let i = 0; i < lines.length; i++) {
-      const [
-        name,
-        index,
-        displayAttached,
-        displayActive,
-        fanSpeed,
-        memoryTotal,
-        utilizationGPU,
-        utilizationMemory,
-        temperatureGPU,
-        temperatureMemory,
-        powerDraw,
-        clocksCurrentGraphics,
-        clocksCurrentSM,
-        clocksCurrentMemory,
-        clocksCurrentVideo,
-        clocksMaxGraphics,
-        clocksMaxSM,
-        clocksMaxMemory,
-      ] = lines[i].split(',').map((s) => s.trim());
-      let currIdx = gpus.length;
-      let currGpu: GPU | undefined = undefined;
-      for (let g = 0; g < gpus.length; g++) {
-        if (updatedIndexes.has(g)) continue; // already updated this GPU
-        const gpu = gpus[g];
-        if (gpu.name !== name) continue;
-        updatedIndexes.add(g);
-        currIdx = g;
-        currGpu = gpus[g];
-        break;
-      }
-      if (!currGpu) {
-        currGpu = { id: name, name } as GPU;
-        updatedIndexes.add(gpus.length);
-        gpus.push(currGpu);
-      }
-      if (index.toString().length > 0) currGpu.index = parseInt(index, 10);
-      if (displayAttached) currGpu.displayAttached = ['yes', 'enabled', '1'].includes(displayAttached.toLowerCase());
-      if (displayActive) currGpu.displayActive = ['yes', 'enabled', '1'].includes(displayActive.toLowerCase());
-      if (fanSpeed && !Number.isNaN(parseFloat(fanSpeed))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        currGpu.utilization.fanSpeed = parseFloat(fanSpeed) / 100;
-      }
-      if (memoryTotal && !Number.isNaN(parseInt(memoryTotal, 10)))
-        currGpu.memory = parseInt(memoryTotal, 10) * 1024 * 1024; // convert MiB to bytes
-      if (utilizationGPU && !Number.isNaN(parseFloat(utilizationGPU))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        currGpu.utilization.processing = parseFloat(utilizationGPU) / 100;
-      }
-      if (utilizationMemory && !Number.isNaN(parseFloat(utilizationMemory))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        currGpu.utilization.memory = parseFloat(utilizationMemory) / 100;
-      }
-      if (temperatureGPU && !Number.isNaN(parseFloat(temperatureGPU))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        currGpu.utilization.temperature = parseFloat(temperatureGPU);
-      }
-      if (temperatureMemory && !Number.isNaN(parseFloat(temperatureMemory))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        currGpu.utilization.memoryTemperature = parseFloat(temperatureMemory);
-      }
-      if (powerDraw && !Number.isNaN(parseFloat(powerDraw))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        currGpu.utilization.powerDraw = parseFloat(powerDraw);
-      }
-      if (clocksCurrentGraphics && !Number.isNaN(parseInt(clocksCurrentGraphics, 10))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        if (!currGpu.utilization.clockSpeed) currGpu.utilization.clockSpeed = {};
-        currGpu.utilization.clockSpeed.graphics = parseInt(clocksCurrentGraphics, 10);
-      }
-      if (clocksCurrentMemory && !Number.isNaN(parseInt(clocksCurrentMemory, 10))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        if (!currGpu.utilization.clockSpeed) currGpu.utilization.clockSpeed = {};
-        currGpu.utilization.clockSpeed.memory = parseInt(clocksCurrentMemory, 10);
-      }
-      if (clocksCurrentSM && !Number.isNaN(parseInt(clocksCurrentSM, 10))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        if (!currGpu.utilization.clockSpeed) currGpu.utilization.clockSpeed = {};
-        currGpu.utilization.clockSpeed.sm = parseInt(clocksCurrentSM, 10);
-      }
-      if (clocksCurrentVideo && !Number.isNaN(parseInt(clocksCurrentVideo, 10))) {
-        if (!currGpu.utilization) currGpu.utilization = {} as GPUUtilization;
-        if (!currGpu.utilization.clockSpeed) currGpu.utilization.clockSpeed = {};
-        currGpu.utilization.clockSpeed.video = parseInt(clocksCurrentVideo, 10);
-      }
-      if (clocksMaxGraphics && !Number.isNaN(parseInt(clocksMaxGraphics, 10))) {
-        if (!currGpu.clockMaxSpeed) currGpu.clockMaxSpeed = {};
-        currGpu.clockMaxSpeed.graphics = parseInt(clocksMaxGraphics, 10);
+    const rows = getGPUSamples() ?? (await queryNvidiaSmi());
+    const updated = new Set<GPU>();
+    for (const values of rows) {
+      // match by PCI bus ID, by name as fallback if the bus ID of the GPU is unknown
+      const busId = values['pci.bus_id'] ? normalizePciBusId(values['pci.bus_id']) : undefined;
+      let gpu =
+        (busId ? gpus.find((g) => !updated.has(g) && g.busId === busId) : undefined) ??
+        gpus.find((g) => !updated.has(g) && !g.busId && g.name === values.name);
+      if (!gpu) {
+        gpu = { id: busId || values.uuid || values.name, name: values.name } as GPU;
+        gpus.push(gpu);
       }
-      if (clocksMaxMemory && !Number.isNaN(parseInt(clocksMaxMemory, 10))) {
-        if (!currGpu.clockMaxSpeed) currGpu.clockMaxSpeed = {};
-        currGpu.clockMaxSpeed.memory = parseInt(clocksMaxMemory, 10);
-      }
-      if (clocksMaxSM && !Number.isNaN(parseInt(clocksMaxSM, 10))) {
-        if (!currGpu.clockMaxSpeed) currGpu.clockMaxSpeed = {};
-        currGpu.clockMaxSpeed.sm = parseInt(clocksMaxSM, 10);
-      }
-      gpus[currIdx] = currGpu;
+      if (values.name) gpu.name = values.name;
+      updated.add(gpu);
+      applyNvidiaSmiValues(gpu, values);
+    }
+
+    // MIG devices are only listed by nvidia-smi -L
+    if (gpus.some((gpu) => gpu.migMode)) {
+      const migDevices = parseNvidiaSmiMigDevices(await execCommand('nvidia-smi -L').catch(() => ''));
+      for (const gpu of gpus) if (gpu.migMode && gpu.uuid) gpu.migDevices = migDevices[gpu.uuid] ?? [];
     }
   }
 
   return gpus;
 }
+
+export type GPUProcess = {
+  /** ID of the process. */
+  pid: number;
+
+  /** Name of the process. */
+  name: string;
+
+  /** GPU memory (VRAM) used by the process in bytes. */
+  memoryUsed?: number;
+
+  /**
+   * Cumulative busy time of the GPU engines used by the process in nanoseconds by engine (e.g., gfx, compute, dec).
+   * Only available for GPUs exposing DRM client statistics (e.g. amdgpu, i915, xe).
+   */
+  engineTime?: { [engine: string]: number };
+
+  /** Index of the GPU the process runs on (as reported by nvidia-smi). */
+  gpuIndex?: number;
+
+  /** UUID of the GPU the process runs on. */
+  gpuUuid?: string;
+
+  /** PCI bus ID of the GPU the process runs on (e.g., 01:00.0). */
+  gpuBusId?: string;
+
+  /** GPU object of getGPUs() the process runs on, if it could be associated. */
+  gpu?: GPU;
+};
+
+/**
+ * Parses the DRM client statistics of a file descriptor (/proc/<pid>/fdinfo/<fd>).
+ *
+ * @param content Content of the fdinfo file with lines like "drm-memory-vram: 1024 KiB".
+ * @returns Parsed statistics or null if the file descriptor is no DRM client.
+ */
+function parseDrmFdinfo(
+  content: string,
+): { pdev: string; clientId: string; memoryUsed?: number; engineTime: { [engine: string]: number } } | null {
+  const values: { [key: string]: string } = {};
+  for (const line of content.split('\n')) {
+    const index = line.indexOf(':');
+    if (index > 0) values[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+  }
+  if (!values['drm-driver'] || !values['drm-pdev'] || !values['drm-client-id']) return null;
+
+  const result: { pdev: string; clientId: string; memoryUsed?: number; engineTime: { [engine: string]: number } } = {
+    pdev: normalizePciBusId(values['drm-pdev']),
+    clientId: values['drm-client-id'],
+    engineTime: {},
+  };
+  // older kernels report drm-memory-<region>, newer ones drm-resident-<region> (vram0 on xe, local0 on i915)
+  const memory =
+    values['drm-resident-vram'] ??
+    values['drm-memory-vram'] ??
+    values['drm-resident-vram0'] ??
+    values['drm-resident-local0'];
+  if (memory) {
+    const [amount, unit] = memory.split(/\s+/);
+    const factor = unit === 'KiB' ? 1024 : unit === 'MiB' ? 1024 * 1024 : unit === 'GiB' ? 1024 * 1024 * 1024 : 1;
+    const num = parseInt(amount, 10);
+    if (!Number.isNaN(num)) result.memoryUsed = num * factor;
+  }
+  for (const [key, value] of Object.entries(values)) {
+    if (!key.startsWith('drm-engine-') || key.startsWith('drm-engine-capacity-')) continue;
+    const num = parseInt(value, 10); // e.g. "123456 ns"
+    if (!Number.isNaN(num)) result.engineTime[key.slice('drm-engine-'.length)] = num;
+  }
+  return result;
+}
+
+/**
+ * Reads the GPU processes of AMD and Intel GPUs from the DRM client statistics in /proc/<pid>/fdinfo.
+ * Only processes readable by the current user are returned.
+ */
+async function getLinuxDrmGPUProcesses(): Promise<GPUProcess[]> {
+  const pids = (await fs.readdir('/proc').catch(() => [] as string[])).filter((file) => /^\d+$/.test(file));
+  const processes: GPUProcess[] = [];
+  await Promise.allSettled(
+    pids.map(async (pid) => {
+      const fds = await fs.readdir('/proc/' + pid + '/fd');
+      const clients: { [client: string]: GPUProcess } = {};
+      await Promise.allSettled(
+        fds.map(async (fd) => {
+          const target = await fs.readlink('/proc/' + pid + '/fd/' + fd);
+          if (!target.startsWith('/dev/dri/')) return;
+          const info = parseDrmFdinfo(await fs.readFile('/proc/' + pid + '/fdinfo/' + fd, 'utf8'));
+          // multiple file descriptors can share the same DRM client
+          if (!info || clients[info.pdev + '/' + info.clientId]) return;
+          const proc: GPUProcess = { pid: parseInt(pid, 10), name: '', gpuBusId: info.pdev };
+          if (info.memoryUsed !== undefined) proc.memoryUsed = info.memoryUsed;
+          if (Object.keys(info.engineTime).length > 0) proc.engineTime = info.engineTime;
+          clients[info.pdev + '/' + info.clientId] = proc;
+        }),
+      );
+
+      // one entry per process and GPU
+      const byGPU: { [busId: string]: GPUProcess } = {};
+      for (const client of Object.values(clients)) {
+        const existing = byGPU[client.gpuBusId!];
+        if (!existing) {
+          byGPU[client.gpuBusId!] = client;
+          continue;
+        }
+        if (client.memoryUsed !== undefined) existing.memoryUsed = (existing.memoryUsed ?? 0) + client.memoryUsed;
+        for (const [engine, time] of Object.entries(client.engineTime ?? {})) {
+          existing.engineTime = existing.engineTime || {};
+          existing.engineTime[engine] = (existing.engineTime[engine] ?? 0) + time;
+        }
+      }
+      if (Object.keys(byGPU).length === 0) return;
+      const name = await fs
+        .readFile('/proc/' + pid + '/comm', 'utf8')
+        .then((comm) => comm.trim())
+        .catch(() => '');
+      for (const proc of Object.values(byGPU)) processes.push({ ...proc, name });
+    }),
+  );
+  return processes;
+}
+
+/**
+ * Returns the processes using the GPUs with their GPU memory usage.
+ * NVIDIA GPUs are queried via nvidia-smi (compute processes), AMD and Intel GPUs on Linux via DRM client statistics.
+ *
+ * @param gpus GPUs as returned by getGPUs() the processes are associated with (default queries the GPUs).
+ * @returns Processes using the GPUs ordered by process ID.
+ */
+export async function getGPUProcesses(gpus?: GPU[] | Promise<GPU[]>): Promise<GPUProcess[]> {
+  const [knownGPUs, appsOutput, drmProcesses] = await Promise.all([
+    Promise.resolve(gpus ?? getGPUs()).catch(() => [] as GPU[]),
+    execCommand(
+      'nvidia-smi --query-compute-apps=pid,process_name,used_memory,gpu_uuid,gpu_bus_id --format=csv,nounits,noheader',
+    ).catch(() => ''),
+    process.platform === 'linux' ? getLinuxDrmGPUProcesses() : Promise.resolve([] as GPUProcess[]),
+  ]);
+
+  const processes: GPUProcess[] = [...drmProcesses];
+  for (const line of appsOutput.split('\n')) {
+    if (!line.trim()) continue;
+    const [pid, name, usedMemory, gpuUuid, gpuBusId] = line.split(',').map((s) => s.trim());
+    if (Number.isNaN(parseInt(pid, 10))) continue;
+    const proc: GPUProcess = { pid: parseInt(pid, 10), name };
+    if (!Number.isNaN(parseInt(usedMemory, 10))) proc.memoryUsed = parseInt(usedMemory, 10) * 1024 * 1024; // MiB to bytes
+    if (gpuUuid) proc.gpuUuid = gpuUuid;
+    if (gpuBusId) proc.gpuBusId = normalizePciBusId(gpuBusId);
+    processes.push(proc);
+  }
+
+  for (const proc of processes) {
+    const gpu =
+      (proc.gpuUuid ? knownGPUs.find((g) => g.uuid === proc.gpuUuid) : undefined) ??
+      (proc.gpuBusId ? knownGPUs.find((g) => g.busId === proc.gpuBusId) : undefined);
+    if (gpu) {
+      proc.gpu = gpu;
+      if (proc.gpuIndex === undefined && gpu.index !== undefined) proc.gpuIndex = gpu.index;
+    }
+  }
+  return processes.sort((a, b) => a.pid - b.pid || (a.gpuIndex ?? 0) - (b.gpuIndex ?? 0));
+}
@@ -0,0 +1,422 @@
+import fs from 'fs/promises';
+import { execCommand, parseDate } from './utils';
+
+export type SystemProductInfo = {
+  /** Manufacturer of the system (e.g., Dell Inc., LENOVO). */
+  manufacturer?: string;
+
+  /** Product name of the system (e.g., XPS 15 9530). */
+  product?: string;
+
+  /** Version of the system product. */
+  version?: string;
+
+  /** Serial number of the system (usually requires root/administrator privileges). */
+  serial?: string;
+
+  /** UUID of the system (usually requires root/administrator privileges). */
+  uuid?: string;
+
+  /** Stock keeping unit (SKU) number of the system. */
+  sku?: string;
+
+  /** Family the system belongs to (e.g., ThinkPad X1 Carbon). */
+  family?: string;
+};
+
+export type BaseboardInfo = {
+  /** Manufacturer of the baseboard (motherboard). */
+  manufacturer?: string;
+
+  /** Model of the baseboard (e.g., ROG STRIX B550-F GAMING). */
+  model?: string;
+
+  /** Revision of the baseboard. */
+  revision?: string;
+
+  /** Serial number of the baseboard (usually requires root/administrator privileges). */
+  serial?: string;
+
+  /** Asset tag of the baseboard. */
+  assetTag?: string;
+};
+
+export type ChassisInfo = {
+  /** Type of the chassis as named by the SMBIOS specification (e.g., Desktop, Notebook, Rack Mount Chassis). */
+  type?: string;
+
+  /** SMBIOS code of the chassis type (e.g., 3 for Desktop, 10 for Notebook). */
+  typeId?: number;
+
+  /** Manufacturer of the chassis. */
+  manufacturer?: string;
+
+  /** Version of the chassis. */
+  version?: string;
+
+  /** Serial number of the chassis (usually requires root/administrator privileges). */
+  serial?: string;
+
+  /** Asset tag of the chassis. */
+  assetTag?: string;
+};
+
+export type BIOSInfo = {
+  /** Vendor of the BIOS/UEFI firmware. */
+  vendor?: string;
+
+  /** Version of the BIOS/UEFI firmware. */
+  version?: string;
+
+  /** Release date of the BIOS/UEFI firmware. */
+  date?: Date;
+
+  /** BIOS revision (e.g., 5.17). */
+  revision?: string;
+};
+
+export type SystemHardware = {
+  /** Information about the system product. */
+  system: SystemProductInfo;
+
+  /** Information about the baseboard (motherboard). */
+  baseboard: BaseboardInfo;
+
+  /** Information about the chassis (enclosure). */
+  chassis: ChassisInfo;
+
+  /** Information about the BIOS/UEFI firmware. */
+  bios: BIOSInfo;
+};
+
+/** Names of the chassis types by their SMBIOS code. */
+const CHASSIS_TYPES: { [id: number]: string } = {
+  1: 'Other',
+  2: 'Unknown',
+  3: 'Desktop',
+  4: 'Low Profile Desktop',
+  5: 'Pizza Box',
+  6: 'Mini Tower',
+  7: 'Tower',
+  8: 'Portable',
+  9: 'Laptop',
+  10: 'Notebook',
+  11: 'Hand Held',
+  12: 'Docking Station',
+  13: 'All In One',
+  14: 'Sub Notebook',
+  15: 'Space-saving',
+  16: 'Lunch Box',
+  17: 'Main Server Chassis',
+  18: 'Expansion Chassis',
+  19: 'Sub Chassis',
+  20: 'Bus Expansion Chassis',
+  21: 'Peripheral Chassis',
+  22: 'RAID Chassis',
+  23: 'Rack Mount Chassis',
+  24: 'Sealed-case PC',
+  25: 'Multi-system',
+  26: 'CompactPCI',
+  27: 'AdvancedTCA',
+  28: 'Blade',
+  29: 'Blade Enclosure',
+  30: 'Tablet',
+  31: 'Convertible',
+  32: 'Detachable',
+  33: 'IoT Gateway',
+  34: 'Embedded PC',
+  35: 'Mini PC',
+  36: 'Stick PC',
+};
+
+/** Placeholder values vendors leave in the SMBIOS tables that carry no information. */
+const DMI_PLACEHOLDERS = new Set([
+  'to be filled by o.e.m.',
+  'to be filled by oem',
+  'default string',
+  'not specified',
+  'not applicable',
+  'not available',
+  'none',
+  'n/a',
+  'system serial number',
+  'system product name',
+  'system manufacturer',
+  'system version',
+  'base board serial number',
+  'chassis serial number',
+  'o.e.m.',
+  'oem',
+  '0',
+  '00000000-0000-0000-0000-000000000000',
+  '03000200-0400-0500-0006-000700080009',
+]);
+
+/**
+ * Cleans a value of the SMBIOS tables.
+ *
+ * @param value Raw value.
+ * @returns Trimmed value or undefined if it is empty or a known placeholder.
+ */
+function cleanDmiValue(value: any): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const str = String(value).trim();
+  if (!str || DMI_PLACEHOLDERS.has(str.toLowerCase())) return undefined;
+  return str;
+}
+
+/**
+ * Assigns all defined values of the source to the target if the target does not have a value yet.
+ */
+function fillMissing<T extends object>(target: T, source: { [K in keyof T]?: T[K] | undefined }): void {
+  for (const key of Object.keys(source) as (keyof T)[]) {
+    if (target[key] === undefined && source[key] !== undefined) target[key] = source[key] as T[keyof T];
+  }
+}
+
+/**
+ * Parses the output of dmidecode into blocks of key value pairs by their handle title.
+ *
+ * @param output Output of dmidecode.
+ * @returns Values by block title (e.g., "System Information") and key (e.g., "Manufacturer").
+ */
+function parseDmidecode(output: string): { [title: string]: { [key: string]: string } } {
+  const blocks: { [title: string]: { [key: string]: string } } = {};
+  let current: { [key: string]: string } | null = null;
+  let expectTitle = false;
+  for (const line of output.split('\n')) {
+    if (line.startsWith('Handle ')) {
+      expectTitle = true;
+      current = null;
+      continue;
+    }
+    if (expectTitle) {
+      expectTitle = false;
+      const title = line.trim();
+      // only the first block of each type is used (e.g. multiple baseboards are rare)
+      current = blocks[title] ? null : (blocks[title] = {});
+      continue;
+    }
+    if (!current || !line.startsWith('\t') || line.startsWith('\t\t')) continue;
+    const index = line.indexOf(':');
+    if (index < 0) continue;
+    const value = line.slice(index + 1).trim();
+    if (value) current[line.slice(0, index).trim()] = value;
+  }
+  return blocks;
+}
+
+/**
+ * Returns the hardware inventory of the system (system product, baseboard, chassis and BIOS).
+ * Serial numbers and UUIDs are only available with root/administrator privileges on most systems.
+ *
+ * @returns Hardware information.
+ */
+export async function getSystemHardware(): Promise<SystemHardware> {
+  const hardware: SystemHardware = { system: {}, baseboard: {}, chassis: {}, bios: {} };
+
+  switch (process.platform) {
+    case 'linux': {
+      const read = (name: string) =>
+        fs
+          .readFile('/sys/class/dmi/id/' + name, 'utf8')
+          .then(cleanDmiValue)
+          .catch(() => undefined);
+      const [
+        sysVendor,
+        productName,
+        productVersion,
+        productSerial,
+        productUuid,
+        productSku,
+        productFamily,
+        boardVendor,
+        boardName,
+        boardVersion,
+        boardSerial,
+        boardAssetTag,
+        chassisType,
+        chassisVendor,
+        chassisVersion,
+        chassisSerial,
+        chassisAssetTag,
+        biosVendor,
+        biosVersion,
+        biosDate,
+        biosRelease,
+      ] = await Promise.all(
+        [
+          'sys_vendor',
+          'product_name',
+          'product_version',
+          'product_serial',
+          'product_uuid',
+          'product_sku',
+          'product_family',
+          'board_vendor',
+          'board_name',
+          'board_version',
+          'board_serial',
+          'board_asset_tag',
+          'chassis_type',
+          'chassis_vendor',
+          'chassis_version',
+          'chassis_serial',
+          'chassis_asset_tag',
+          'bios_vendor',
+          'bios_version',
+          'bios_date',
+          'bios_release',
+        ].map(read),
+      );
+      fillMissing(hardware.system, {
+        manufacturer: sysVendor,
+        product: productName,
+        version: productVersion,
+        serial: productSerial,
+        uuid: productUuid?.toLowerCase(),
+        sku: productSku,
+        family: productFamily,
+      });
+      fillMissing(hardware.baseboard, {
+        manufacturer: boardVendor,
+        model: boardName,
+        revision: boardVersion,
+        serial: boardSerial,
+        assetTag: boardAssetTag,
+      });
+      const typeId = parseInt(chassisType || '', 10);
+      fillMissing(hardware.chassis, {
+        type: CHASSIS_TYPES[typeId],
+        typeId: Number.isNaN(typeId) ? undefined : typeId,
+        manufacturer: chassisVendor,
+        version: chassisVersion,
+        serial: chassisSerial,
+        assetTag: chassisAssetTag,
+      });
+      fillMissing(hardware.bios, {
+        vendor: biosVendor,
+        version: biosVersion,
+        date: parseDate(biosDate) ?? undefined, // format MM/DD/YYYY
+        revision: biosRelease,
+      });
+
+      // serial numbers and UUIDs are only readable by root, dmidecode also needs root but may be allowed via sudoers/capabilities
+      if (hardware.system.serial && hardware.system.uuid && hardware.baseboard.serial) break;
+      const output = await execCommand('dmidecode -t system -t baseboard -t chassis -t bios').catch(() => '');
+      const blocks = parseDmidecode(output);
+      const system = blocks['System Information'] || {};
+      const baseboard = blocks['Base Board Information'] || {};
+      const chassis = blocks['Chassis Information'] || {};
+      const bios = blocks['BIOS Information'] || {};
+      fillMissing(hardware.system, {
+        manufacturer: cleanDmiValue(system.Manufacturer),
+        product: cleanDmiValue(system['Product Name']),
+        version: cleanDmiValue(system.Version),
+        serial: cleanDmiValue(system['Serial Number']),
+        uuid: cleanDmiValue(system.UUID)?.toLowerCase(),
+        sku: cleanDmiValue(system['SKU Number']),
+        family: cleanDmiValue(system.Family),
+      });
+      fillMissing(hardware.baseboard, {
+        manufacturer: cleanDmiValue(baseboard.Manufacturer),
+        model: cleanDmiValue(baseboard['Product Name']),
+        revision: cleanDmiValue(baseboard.Version),
+        serial: cleanDmiValue(baseboard['Serial Number']),
+        assetTag: cleanDmiValue(baseboard['Asset Tag']),
+      });
+      fillMissing(hardware.chassis, {
+        type: cleanDmiValue(chassis.Type),
+        manufacturer: cleanDmiValue(chassis.Manufacturer),
+        version: cleanDmiValue(chassis.Version),
+        serial: cleanDmiValue(chassis['Serial Number']),
+        assetTag: cleanDmiValue(chassis['Asset Tag']),
+      });
+      fillMissing(hardware.bios, {
+        vendor: cleanDmiValue(bios.Vendor),
+        version: cleanDmiValue(bios.Version),
+        date: parseDate(bios['Release Date']) ?? undefined,
+        revision: cleanDmiValue(bios['BIOS Revision']),
+      });
+      break;
+    }
+
+    case 'win32': {
+      const output = await execCommand(
+        'powershell -Command "$cs = Get-CimInstance -ClassName Win32_ComputerSystem; $csp = Get-CimInstance -ClassName Win32_ComputerSystemProduct; $bb = Get-CimInstance -ClassName Win32_BaseBoard; $enc = Get-CimInstance -ClassName Win32_SystemEnclosure; $bios = Get-CimInstance -ClassName Win32_BIOS; [PSCustomObject]@{ Manufacturer = $cs.Manufacturer; Model = $cs.Model; SystemFamily = $cs.SystemFamily; SystemSKUNumber = $cs.SystemSKUNumber; ProductVersion = $csp.Version; IdentifyingNumber = $csp.IdentifyingNumber; UUID = $csp.UUID; BoardManufacturer = $bb.Manufacturer; BoardProduct = $bb.Product; BoardVersion = $bb.Version; BoardSerial = $bb.SerialNumber; BoardAssetTag = $bb.Tag; ChassisType = @($enc.ChassisTypes)[0]; ChassisManufacturer = $enc.Manufacturer; ChassisVersion = $enc.Version; ChassisSerial = $enc.SerialNumber; ChassisAssetTag = $enc.SMBIOSAssetTag; BiosVendor = $bios.Manufacturer; BiosVersion = $bios.SMBIOSBIOSVersion; BiosDate = $bios.ReleaseDate.ToString(\'o\'); BiosMajor = $bios.SystemBiosMajorVersion; BiosMinor = $bios.SystemBiosMinorVersion } | ConvertTo-Json"',
+      ).catch(() => '');
+      let json: any = {};
+      try {
+        json = JSON.parse(output) ?? {};
+        // tslint:disable-next-line:no-empty
+      } catch {}
+
+      hardware.system = {
+        manufacturer: cleanDmiValue(json.Manufacturer),
+        product: cleanDmiValue(json.Model),
+        version: cleanDmiValue(json.ProductVersion),
+        serial: cleanDmiValue(json.IdentifyingNumber),
+        uuid: cleanDmiValue(json.UUID)?.toLowerCase(),
+        sku: cleanDmiValue(json.SystemSKUNumber),
+        family: cleanDmiValue(json.SystemFamily),
+      };
+      hardware.baseboard = {
+        manufacturer: cleanDmiValue(json.BoardManufacturer),
+        model: cleanDmiValue(json.BoardProduct),
+        revision: cleanDmiValue(json.BoardVersion),
+        serial: cleanDmiValue(json.BoardSerial),
+        assetTag: cleanDmiValue(json.BoardAssetTag),
+      };
+      const typeId = parseInt(json.ChassisType, 10);
+      hardware.chassis = {
+        type: CHASSIS_TYPES[typeId],
+        typeId: Number.isNaN(typeId) ? undefined : typeId,
+        manufacturer: cleanDmiValue(json.ChassisManufacturer),
+        version: cleanDmiValue(json.ChassisVersion),
+        serial: cleanDmiValue(json.ChassisSerial),
+        assetTag: cleanDmiValue(json.ChassisAssetTag),
+      };
+      hardware.bios = {
+        vendor: cleanDmiValue(json.BiosVendor),
+        version: cleanDmiValue(json.BiosVersion),
+        date: parseDate(json.BiosDate) ?? undefined,
+        revision:
+          typeof json.BiosMajor === 'number' && typeof json.BiosMinor === 'number'
+            ? json.BiosMajor + '.' + json.BiosMinor
+            : undefined,
+      };
+      break;
+    }
+
+    case 'darwin': {
+      const output = await execCommand('system_profiler SPHardwareDataType').catch(() => '');
+      const values: { [key: string]: string } = {};
+      for (const line of output.split('\n')) {
+        const index = line.indexOf(':');
+        if (index < 0) continue;
+        values[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+      }
+      hardware.system = {
+        manufacturer: 'Apple Inc.',
+        product: values['Model Name'],
+        version: values['Model Identifier'],
+        serial: values['Serial Number (system)'],
+        uuid: values['Hardware UUID']?.toLowerCase(),
+        sku: values['Model Number'],
+      };
+      hardware.baseboard = { manufacturer: 'Apple Inc.' };
+      hardware.chassis = { manufacturer: 'Apple Inc.' };
+      hardware.bios = {
+        vendor: 'Apple Inc.',
+        version: values['System Firmware Version'] || values['Boot ROM Version'],
+      };
+      break;
+    }
+  }
+
+  // remove unknown values to keep the output compact
+  for (const section of Object.values(hardware) as { [key: string]: unknown }[]) {
+    for (const key of Object.keys(section)) if (section[key] === undefined) delete section[key];
+  }
+  return hardware;
+}
@@ -1,32 +1,62 @@
+export * from './battery';
+export * from './cgroup';
 export * from './cpu';
 export * from './drive';
 export * from './gpu';
+export * from './hardware';
+export * from './load';
 export * from './memory';
+export * from './monitor';
 export * from './net';
 export * from './os';
+export * from './process';
+export * from './prometheus';
+export * from './sensor';
+export * from './snapshot';
 export * from './temperature';
 export * from './utils';
+export * from './wifi';
 
+import * as battery from './battery';
+import * as cgroup from './cgroup';
 import * as cpu from './cpu';
 import * as drive from './drive';
 import * as gpu from './gpu';
+import * as hardware from './hardware';
+import * as load from './load';
 import * as memory from './memory';
+import * as monitor from './monitor';
 import * as net from './net';
 import * as os from './os';
+import * as processes from './process';
+import * as prometheus from './prometheus';
+import * as sensors from './sensor';
+import * as snapshot from './snapshot';
 import * as temperatures from './temperature';
 import * as utils from './utils';
+import * as wifi from './wifi';
 
 /**
  * Utility functions for interacting with the system.
  */
 const lupSystem = {
+  ...battery,
+  ...cgroup,
   ...cpu,
   ...drive,
   ...gpu,
+  ...hardware,
+  ...load,
   ...memory,
+  ...monitor,
   ...net,
   ...os,
+  ...processes,
+  ...prometheus,
+  ...sensors,
+  ...snapshot,
   ...temperatures,
   ...utils,
+  ...wifi,
 };
 export default lupSystem;
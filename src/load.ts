@@ -0,0 +1,122 @@
+import fs from 'fs/promises';
+import os from 'os';
+import { getCpuCoreCount } from './cpu';
+
+export type LoadAverages = {
+  /** Load average over the last minute. */
+  oneMinute: number;
+
+  /** Load average over the last 5 minutes. */
+  fiveMinutes: number;
+
+  /** Load average over the last 15 minutes. */
+  fifteenMinutes: number;
+};
+
+export type PressureStall = {
+  /** Share of time stalled averaged over the last 10 seconds as a percentage (0.0-1.0). */
+  avg10: number;
+
+  /** Share of time stalled averaged over the last 60 seconds as a percentage (0.0-1.0). */
+  avg60: number;
+
+  /** Share of time stalled averaged over the last 300 seconds as a percentage (0.0-1.0). */
+  avg300: number;
+
+  /** Total stall time in microseconds since boot. */
+  total: number;
+};
+
+export type PressureInfo = {
+  /** Stall time in which at least some tasks were stalled on the resource. */
+  some: PressureStall;
+
+  /** Stall time in which all non-idle tasks were stalled on the resource simultaneously (not reported for CPU on older kernels). */
+  full?: PressureStall;
+};
+
+export type LoadInfo = {
+  /**
+   * Average number of processes running or waiting for CPU (and on Linux also for uninterruptible I/O).
+   * Always 0 on Windows.
+   */
+  average: LoadAverages;
+
+  /** Load averages divided by the number of CPU cores (1.0 means all cores are fully occupied). */
+  normalized: LoadAverages;
+
+  /** Pressure stall information (PSI), only available on Linux 4.20+ with PSI enabled. */
+  pressure?: {
+    /** Pressure on the CPU. */
+    cpu?: PressureInfo;
+
+    /** Pressure on the memory. */
+    memory?: PressureInfo;
+
+    /** Pressure on the I/O devices. */
+    io?: PressureInfo;
+  };
+};
+
+/**
+ * Parses the content of a /proc/pressure/* file.
+ *
+ * @param content Content of the file (e.g., "some avg10=0.00 avg60=0.00 avg300=0.00 total=0").
+ * @returns Parsed pressure information or undefined if no valid data is found.
+ */
+function parsePressure(content: string): PressureInfo | undefined {
+  const info: Partial<PressureInfo> = {};
+  for (const line of content.split('\n')) {
+    const [kind, ...pairs] = line.trim().split(/\s+/);
+    if (kind !== 'some' && kind !== 'full') continue;
+    const stall: PressureStall = { avg10: 0, avg60: 0, avg300: 0, total: 0 };
+    for (const pair of pairs) {
+      const [key, value] = pair.split('=');
+      const num = parseFloat(value) || 0;
+      // averages are reported in percent
+      if (key === 'avg10') stall.avg10 = num / 100;
+      else if (key === 'avg60') stall.avg60 = num / 100;
+      else if (key === 'avg300') stall.avg300 = num / 100;
+      else if (key === 'total') stall.total = num;
+    }
+    info[kind] = stall;
+  }
+  return info.some ? (info as PressureInfo) : undefined;
+}
+
+/**
+ * Returns the load averages of the system and, on Linux, the pressure stall information (PSI).
+ *
+ * @returns Load information.
+ */
+export async function getLoadInfo(): Promise<LoadInfo> {
+  const [oneMinute, fiveMinutes, fifteenMinutes] = os.loadavg();
+  const coreCount = Math.max(1, getCpuCoreCount());
+  const loadInfo: LoadInfo = {
+    average: { oneMinute, fiveMinutes, fifteenMinutes },
+    normalized: {
+      oneMinute: oneMinute / coreCount,
+      fiveMinutes: fiveMinutes / coreCount,
+      fifteenMinutes: fifteenMinutes / coreCount,
+    },
+  };
+
+  if (process.platform === 'linux') {
+    const [cpu, memory, io] = await Promise.all(
+      ['cpu', 'memory', 'io'].map((resource) =>
+        fs
+          .readFile('/proc/pressure/' + resource, 'utf8')
+          .then(parsePressure)
+          .catch(() => undefined),
+      ),
+    );
+    if (cpu || memory || io) {
+      loadInfo.pressure = {};
+      if (cpu) loadInfo.pressure.cpu = cpu;
+      if (memory) loadInfo.pressure.memory = memory;
+      if (io) loadInfo.pressure.io = io;
+    }
+  }
+
+  return loadInfo;
+}
@@ -1,6 +1,39 @@
+import fs from 'fs/promises';
 import os from 'os';
+import { getCgroupInfo } from './cgroup';
 import { execCommand } from './utils';
 
+export type SwapUtilization = {
+  /** Total swap space (swap partitions/files or page files) in bytes. */
+  total: number;
+
+  /** Swap space used in bytes. */
+  used: number;
+
+  /** Swap space free in bytes. */
+  free: number;
+
+  /** Utilization of the swap space in percentage (0.0-1.0). */
+  percentage: number;
+};
+
+export type HugePagesUtilization = {
+  /** Total number of huge pages in the pool. */
+  total: number;
+
+  /** Number of huge pages not yet allocated. */
+  free: number;
+
+  /** Number of huge pages reserved for allocation but not yet allocated. */
+  reserved: number;
+
+  /** Number of huge pages allocated above the configured pool size. */
+  surplus: number;
+
+  /** Size of a single huge page in bytes. */
+  size: number;
+};
+
 export type MemoryUtilization = {
   /** Memory used in bytes. */
   used: number;
@@ -10,6 +43,30 @@ export type MemoryUtilization = {
 
   /** Utilization of available memory in percentage (0.0-1.0). */
   percentage: number;
+
+  /**
+   * Memory available for starting new applications without swapping in bytes.
+   * In contrast to free, this includes memory that can be reclaimed from caches.
+   */
+  available?: number;
+
+  /** Memory used by the page cache (file contents) in bytes. */
+  cached?: number;
+
+  /** Memory used by kernel buffers of block devices in bytes (Linux only). */
+  buffers?: number;
+
+  /** Memory used by shared memory and tmpfs in bytes (Linux only). */
+  shared?: number;
+
+  /** Memory used by kernel data structures in bytes (Linux slab, Windows kernel pools). */
+  slab?: number;
+
+  /** Utilization of the swap space (Linux) or page files (Windows). */
+  swap?: SwapUtilization;
+
+  /** Huge page pool statistics (Linux only). */
+  hugePages?: HugePagesUtilization;
 };
 
 export type MemoryDevice = {
@@ -73,16 +130,18 @@ export type Memory = {
 /**
  * Returns information about the memory (RAM).
  *
+ * @param basedOnAvailable If used memory and percentage should be based on the available instead of the free memory (see getMemoryUtilization).
+ * @param containerScoped If size and utilization should be reported relative to the memory limit of the container (cgroup) instead of the host.
  * @returns Memory information.
  */
-export async function getMemoryInfo(): Promise<Memory> {
+export async function getMemoryInfo(
+  basedOnAvailable: boolean = false,
+  containerScoped: boolean = false,
+): Promise<Memory> {
+  const utilization = await getMemoryUtilization(basedOnAvailable, containerScoped, true);
   const memoryInfo: Memory = {
-    size: os.totalmem(),
-    utilization: {
-      used: os.totalmem() - os.freemem(),
-      free: os.freemem(),
-      percentage: (os.totalmem() - os.freemem()) / os.totalmem(),
-    },
+    size: containerScoped ? utilization.used + utilization.free : os.totalmem(),
+    utilization,
   };
   const interleavePositions = new Set<number>();
 
@@ -355,12 +414,123 @@ export async function getMemoryInfo(): Promise<Memory> {
 /**
  * Returns memory utilization data.
  *
+ * @param basedOnAvailable If used memory and percentage should be based on the available instead of the free memory.
+ * On Linux the free memory excludes the page cache, so a healthy system can look almost full unless this option is enabled.
+ * @param containerScoped If the utilization should be relative to the memory limit of the container (cgroup) instead of the host.
+ * @param includeBreakdown If the breakdown (available, cached, slab, swap) should also be read on Windows, which requires
+ * spawning PowerShell on every call. On Linux the breakdown is always included as it is read from /proc/meminfo.
  * @returns Memory utilization data.
  */
-export async function getMemoryUtilization(): Promise<MemoryUtilization> {
-  return {
-    used: os.totalmem() - os.freemem(),
+export async function getMemoryUtilization(
+  basedOnAvailable: boolean = false,
+  containerScoped: boolean = false,
+  includeBreakdown: boolean = false,
+): Promise<MemoryUtilization> {
+  const total = os.totalmem();
+
+  if (containerScoped) {
+    const cgroup = await getCgroupInfo().catch(() => null);
+    if (cgroup) {
+      const limit = Math.min(cgroup.memory.limit ?? total, total);
+      const usage = Math.min(cgroup.memory.usage, limit);
+      const available = Math.max(0, limit - usage + (cgroup.memory.reclaimable ?? 0));
+      const used = basedOnAvailable ? limit - available : usage;
+      const containerUtilization: MemoryUtilization = {
+        used,
+        free: limit - used,
+        percentage: limit !== 0 ? used / limit : 0,
+        available,
+      };
+      if (cgroup.memory.reclaimable !== undefined) containerUtilization.cached = cgroup.memory.reclaimable;
+      if (cgroup.memory.swapLimit !== undefined && cgroup.memory.swapUsage !== undefined) {
+        containerUtilization.swap = {
+          total: cgroup.memory.swapLimit,
+          used: cgroup.memory.swapUsage,
+          free: Math.max(0, cgroup.memory.swapLimit - cgroup.memory.swapUsage),
+          percentage: cgroup.memory.swapLimit !== 0 ? cgroup.memory.swapUsage / cgroup.memory.swapLimit : 0,
+        };
+      }
+      return containerUtilization;
+    }
+  }
+
+  const utilization: MemoryUtilization = {
+    used: total - os.freemem(),
     free: os.freemem(),
-    percentage: (os.totalmem() - os.freemem()) / os.totalmem(),
+    percentage: (total - os.freemem()) / total,
   };
+
+  switch (process.platform) {
+    case 'linux': {
+      const output = await fs.readFile('/proc/meminfo', 'utf8').catch(() => '');
+      const values: { [key: string]: number } = {};
+      for (const line of output.split('\n')) {
+        const idx = line.indexOf(':');
+        if (idx < 0) continue;
+        const [value, unit] = line
+          .substring(idx + 1)
+          .trim()
+          .split(/\s+/);
+        const num = parseInt(value, 10);
+        if (!Number.isNaN(num)) values[line.substring(0, idx)] = unit === 'kB' ? num * 1024 : num; // kB to bytes
+      }
+      if (values.MemAvailable !== undefined) utilization.available = values.MemAvailable;
+      if (values.Cached !== undefined) utilization.cached = values.Cached + (values.SReclaimable ?? 0);
+      if (values.Buffers !== undefined) utilization.buffers = values.Buffers;
+      if (values.Shmem !== undefined) utilization.shared = values.Shmem;
+      if (values.Slab !== undefined) utilization.slab = values.Slab;
+      if (values.SwapTotal !== undefined && values.SwapFree !== undefined) {
+        utilization.swap = {
+          total: values.SwapTotal,
+          used: values.SwapTotal - values.SwapFree,
+          free: values.SwapFree,
+          percentage: values.SwapTotal !== 0 ? (values.SwapTotal - values.SwapFree) / values.SwapTotal : 0,
+        };
+      }
+      if (values.HugePages_Total !== undefined) {
+        utilization.hugePages = {
+          total: values.HugePages_Total,
+          free: values.HugePages_Free ?? 0,
+          reserved: values.HugePages_Rsvd ?? 0,
+          surplus: values.HugePages_Surp ?? 0,
+          size: values.Hugepagesize ?? 0,
+        };
+      }
+      break;
+    }
+
+    case 'win32': {
+      if (!includeBreakdown && !basedOnAvailable) break; // available memory is part of the breakdown
+      const output = await execCommand(
+        'powershell -Command "Get-CimInstance -ClassName Win32_OperatingSystem | Select-Object SizeStoredInPagingFiles, FreeSpaceInPagingFiles | Format-List; Get-CimInstance -ClassName Win32_PerfRawData_PerfOS_Memory | Select-Object AvailableBytes, CacheBytes, PoolNonpagedBytes, PoolPagedBytes | Format-List"',
+      ).catch(() => '');
+      const values: { [key: string]: number } = {};
+      for (const line of output.split('\n')) {
+        const [key, value] = line.split(' : ').map((part) => part.trim());
+        const num = parseInt(value, 10);
+        if (key && !Number.isNaN(num)) values[key] = num;
+      }
+      if (values.AvailableBytes !== undefined) utilization.available = values.AvailableBytes;
+      if (values.CacheBytes !== undefined) utilization.cached = values.CacheBytes;
+      if (values.PoolNonpagedBytes !== undefined || values.PoolPagedBytes !== undefined)
+        utilization.slab = (values.PoolNonpagedBytes ?? 0) + (values.PoolPagedBytes ?? 0);
+      if (values.SizeStoredInPagingFiles !== undefined && values.FreeSpaceInPagingFiles !== undefined) {
+        const swapTotal = values.SizeStoredInPagingFiles * 1024; // KB to bytes
+        const swapFree = values.FreeSpaceInPagingFiles * 1024; // KB to bytes
+        utilization.swap = {
+          total: swapTotal,
+          used: swapTotal - swapFree,
+          free: swapFree,
+          percentage: swapTotal !== 0 ? (swapTotal - swapFree) / swapTotal : 0,
+        };
+      }
+      break;
+    }
+  }
+
+  if (basedOnAvailable && utilization.available !== undefined) {
+    utilization.used = total - utilization.available;
+    utilization.percentage = utilization.used / total;
+  }
+  return utilization;
 }
@@ -0,0 +1,309 @@
+import { EventEmitter } from 'events';
+import { getBattery, PowerInfo } from './battery';
+import {
+  CPUUtilization,
+  getCpuUtilization,
+  isCpuUtilizationComputationRunning,
+  stopCpuUtilizationComputation,
+} from './cpu';
+import {
+  DriveInfo,
+  getDrives,
+  isDriveIOUtilizationComputationRunning,
+  stopDriveIOUtilizationComputation,
+} from './drive';
+import { getMemoryUtilization, MemoryUtilization } from './memory';
+import {
+  getNetworkInterfaces,
+  isNetworkUtilizationComputationRunning,
+  NICInfo,
+  stopNetworkUtilizationComputation,
+} from './net';
+import { getTemperatures, Temperatures } from './temperature';
+
+export type SystemMonitorMetric = 'cpu' | 'memory' | 'net' | 'drive' | 'temperature' | 'battery';
+
+export type SystemMonitorSamples = {
+  cpu: CPUUtilization;
+  memory: MemoryUtilization;
+  net: NICInfo[];
+  drive: DriveInfo[];
+  temperature: Temperatures;
+  battery: PowerInfo;
+};
+
+type SystemMonitorRuleBase = {
+  /** Unique name of the rule that is reported in threshold events. */
+  name: string;
+
+  /** Value that has to be crossed for the rule to trip. */
+  threshold: number;
+
+  /** If the rule trips when the value is above (default) or below the threshold. */
+  direction?: 'above' | 'below';
+
+  /** Duration in milliseconds the threshold has to be crossed continuously before the rule trips (default 0). */
+  duration?: number;
+
+  /**
+   * Distance the value has to move back from the threshold before a tripped rule clears (default 0).
+   * Prevents the rule from flapping if the value oscillates around the threshold.
+   */
+  hysteresis?: number;
+};
+
+/**
+ * Threshold rule that is evaluated against every sample of its metric.
+ * The value function either returns a single value or multiple values keyed by a label (e.g. mount point of a drive)
+ * in which case every key trips and clears independently.
+ */
+export type SystemMonitorRule = {
+  [M in SystemMonitorMetric]: SystemMonitorRuleBase & {
+    /** Metric the rule is evaluated against. */
+    metric: M;
+
+    /** Extracts the value(s) to compare from a sample. Undefined values are ignored. */
+    value: (sample: SystemMonitorSamples[M]) => number | undefined | { [key: string]: number | undefined };
+  };
+}[SystemMonitorMetric];
+
+export type SystemMonitorThresholdEvent = {
+  /** Name of the rule. */
+  rule: string;
+
+  /** Key of the value if the rule returns multiple values, otherwise undefined. */
+  key?: string;
+
+  /** If the rule has been tripped or cleared. */
+  state: 'tripped' | 'cleared';
+
+  /** Value that caused the state change. */
+  value: number;
+
+  /** Threshold of the rule. */
+  threshold: number;
+
+  /** Unix timestamp in milliseconds of the state change. */
+  timestamp: number;
+};
+
+export type SystemMonitorPowerEvent = {
+  /** If an AC adapter is connected after the change. */
+  acConnected: boolean;
+
+  /** Unix timestamp in milliseconds at which the change has been detected. */
+  timestamp: number;
+};
+
+export type SystemMonitorOptions = {
+  /** Intervall in milliseconds at which samples are taken (default 1000). */
+  interval?: number;
+
+  /** Metrics to sample (default all metrics except battery and the ones required by the rules). */
+  metrics?: SystemMonitorMetric[];
+
+  /** Threshold rules that emit threshold events. */
+  rules?: SystemMonitorRule[];
+};
+
+const SYSTEM_MONITOR_METRICS: SystemMonitorMetric[] = ['cpu', 'memory', 'net', 'drive', 'temperature', 'battery'];
+
+/** Metrics sampled if none are specified (battery has to be requested explicitly). */
+const SYSTEM_MONITOR_DEFAULT_METRICS: SystemMonitorMetric[] = ['cpu', 'memory', 'net', 'drive', 'temperature'];
+
+const SYSTEM_MONITOR_PROBES: { [M in SystemMonitorMetric]: () => Promise<SystemMonitorSamples[M]> } = {
+  cpu: getCpuUtilization,
+  memory: getMemoryUtilization,
+  net: getNetworkInterfaces,
+  drive: () => getDrives(false, true),
+  temperature: () => getTemperatures(),
+  battery: getBattery,
+};
+
+/** Background computations that the probes start on demand. */
+const SYSTEM_MONITOR_COMPUTATIONS: { isRunning: () => boolean; stop: () => void }[] = [
+  { isRunning: isCpuUtilizationComputationRunning, stop: stopCpuUtilizationComputation },
+  { isRunning: isDriveIOUtilizationComputationRunning, stop: stopDriveIOUtilizationComputation },
+  { isRunning: isNetworkUtilizationComputationRunning, stop: stopNetworkUtilizationComputation },
+];
+
+/**
+ * Periodically samples the system and emits the samples as events.
+ *
+ * Events:
+ * - `cpu`, `memory`, `net`, `drive`, `temperature`, `battery`: emitted with the latest sample of the metric.
+ * - `threshold`: emitted with a SystemMonitorThresholdEvent when a rule trips or clears.
+ * - `power`: emitted with a SystemMonitorPowerEvent when the AC adapter is plugged or unplugged (requires the battery metric).
+ * - `error`: emitted if a metric could not be sampled or a rule or listener threw (only if an error listener is registered).
+ */
+export class SystemMonitor extends EventEmitter {
+  /** Intervall in milliseconds at which samples are taken. */
+  public interval: number;
+
+  private readonly metrics: SystemMonitorMetric[];
+  private readonly rules: SystemMonitorRule[];
+  private readonly ruleStates: { [rule: string]: { [key: string]: { since: number | null; tripped: boolean } } } = {};
+  private acConnected: boolean | undefined;
+  private readonly startedComputations = new Set<(typeof SYSTEM_MONITOR_COMPUTATIONS)[number]>();
+  private running = false;
+  private generation = 0; // invalidates the loop of a previous start() that is still sampling
+  private timeout: NodeJS.Timeout | null = null;
+
+  constructor(options: SystemMonitorOptions = {}) {
+    super();
+    this.interval = options.interval ?? 1000;
+    this.rules = options.rules ?? [];
+    const metrics = new Set(options.metrics ?? SYSTEM_MONITOR_DEFAULT_METRICS);
+    for (const rule of this.rules) metrics.add(rule.metric);
+    this.metrics = SYSTEM_MONITOR_METRICS.filter((metric) => metrics.has(metric));
+  }
+
+  public on(event: 'cpu', listener: (sample: CPUUtilization) => void): this;
+  public on(event: 'memory', listener: (sample: MemoryUtilization) => void): this;
+  public on(event: 'net', listener: (sample: NICInfo[]) => void): this;
+  public on(event: 'drive', listener: (sample: DriveInfo[]) => void): this;
+  public on(event: 'temperature', listener: (sample: Temperatures) => void): this;
+  public on(event: 'battery', listener: (sample: PowerInfo) => void): this;
+  public on(event: 'threshold', listener: (event: SystemMonitorThresholdEvent) => void): this;
+  public on(event: 'power', listener: (event: SystemMonitorPowerEvent) => void): this;
+  public on(event: 'error', listener: (err: Error) => void): this;
+  public on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  /** If the monitor is currently sampling. */
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Starts sampling the system. The first samples are taken immediately.
+   */
+  public start(): this {
+    if (this.running) return this;
+    this.running = true;
+    this.run(++this.generation);
+    return this;
+  }
+
+  /**
+   * Stops sampling the system as well as the background computations of CPU, drive and network utilization
+   * that have been started by this monitor (computations that were already running are left running).
+   */
+  public stop(): this {
+    this.running = false;
+    if (this.timeout) clearTimeout(this.timeout);
+    this.timeout = null;
+    for (const computation of this.startedComputations) computation.stop();
+    this.startedComputations.clear();
+    return this;
+  }
+
+  private isCurrent(generation: number): boolean {
+    return this.running && generation === this.generation;
+  }
+
+  private async run(generation: number) {
+    try {
+      await this.sample(generation);
+    } catch (err) {
+      this.reportError(err);
+    } finally {
+      if (this.isCurrent(generation)) this.timeout = setTimeout(() => this.run(generation), Math.max(this.interval, 1));
+    }
+  }
+
+  private async sample(generation: number) {
+    const idle = SYSTEM_MONITOR_COMPUTATIONS.filter((computation) => !computation.isRunning());
+    await Promise.all(
+      this.metrics.map(async (metric) => {
+        let sample: SystemMonitorSamples[typeof metric];
+        try {
+          sample = await SYSTEM_MONITOR_PROBES[metric]();
+        } catch (err) {
+          this.reportError(err);
+          return;
+        }
+        if (!this.isCurrent(generation)) return;
+        try {
+          this.emit(metric, sample);
+          if (metric === 'battery') this.detectPowerChange(sample as PowerInfo);
+        } catch (err) {
+          this.reportError(err);
+        }
+        for (const rule of this.rules) {
+          if (rule.metric !== metric) continue;
+          try {
+            this.evaluate(rule, sample);
+          } catch (err) {
+            this.reportError(err);
+          }
+        }
+      }),
+    );
+
+    // remember which computations have been started by the probes so stop() only stops those
+    for (const computation of idle) {
+      if (!computation.isRunning()) continue;
+      if (this.running) this.startedComputations.add(computation);
+      else computation.stop(); // monitor has been stopped while sampling
+    }
+  }
+
+  private reportError(err: unknown) {
+    if (this.listenerCount('error') === 0) return;
+    try {
+      this.emit('error', err);
+      // tslint:disable-next-line:no-empty
+    } catch {} // a throwing error listener must not break the sampling loop
+  }
+
+  private detectPowerChange(power: PowerInfo) {
+    if (power.acConnected === undefined) return;
+    const changed = this.acConnected !== undefined && this.acConnected !== power.acConnected;
+    this.acConnected = power.acConnected;
+    if (!changed) return;
+    const event: SystemMonitorPowerEvent = { acConnected: power.acConnected, timestamp: Date.now() };
+    this.emit('power', event);
+  }
+
+  private evaluate(rule: SystemMonitorRule, sample: SystemMonitorSamples[SystemMonitorMetric]) {
+    const now = Date.now();
+    const result = (rule.value as (sample: any) => number | undefined | { [key: string]: number | undefined })(sample);
+    const values: { [key: string]: number | undefined } = typeof result === 'object' ? result : { '': result };
+    const states = (this.ruleStates[rule.name] = this.ruleStates[rule.name] || {});
+    const below = rule.direction === 'below';
+    const hysteresis = rule.hysteresis ?? 0;
+
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined || Number.isNaN(value)) continue;
+      const state = (states[key] = states[key] || { since: null, tripped: false });
+      const crossed = below ? value < rule.threshold : value > rule.threshold;
+
+      if (!state.tripped) {
+        if (!crossed) {
+          state.since = null;
+          continue;
+        }
+        if (state.since === null) state.since = now;
+        if (now - state.since < (rule.duration ?? 0)) continue;
+        state.tripped = true;
+      } else {
+        const cleared = below ? value >= rule.threshold + hysteresis : value <= rule.threshold - hysteresis;
+        if (!cleared) continue;
+        state.tripped = false;
+        state.since = null;
+      }
+
+      const event: SystemMonitorThresholdEvent = {
+        rule: rule.name,
+        key: key || undefined,
+        state: state.tripped ? 'tripped' : 'cleared',
+        value,
+        threshold: rule.threshold,
+        timestamp: now,
+      };
+      this.emit('threshold', event);
+    }
+  }
+}
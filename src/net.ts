@@ -1,4 +1,5 @@
-import { execCommand } from './utils';
+import { execCommand, sleep } from './utils';
+import { getWirelessInfo, WirelessInfo } from './wifi';
 import dgram from 'dgram';
 import fs from 'fs/promises';
 import net from 'net';
@@ -12,6 +13,49 @@ export type NICUtilization = {
   transmit: number;
 };
 
+export type NICThroughput = {
+  /** Bytes received per second. */
+  receiveBytes: number;
+
+  /** Bytes transmitted per second. */
+  transmitBytes: number;
+
+  /** Packets received per second. */
+  receivePackets: number;
+
+  /** Packets transmitted per second. */
+  transmitPackets: number;
+};
+
+export type NICStatistics = {
+  /** Total number of bytes received. */
+  receivedBytes: number;
+
+  /** Total number of bytes transmitted. */
+  transmittedBytes: number;
+
+  /** Total number of packets received. */
+  receivedPackets: number;
+
+  /** Total number of packets transmitted. */
+  transmittedPackets: number;
+
+  /** Total number of packets that could not be received because of errors (e.g. CRC errors). */
+  receiveErrors: number;
+
+  /** Total number of packets that could not be transmitted because of errors. */
+  transmitErrors: number;
+
+  /** Total number of received packets that have been dropped (e.g. lack of buffer space). */
+  receiveDrops: number;
+
+  /** Total number of packets that have been dropped before transmission. */
+  transmitDrops: number;
+
+  /** Total number of collisions on half-duplex links (only available on Linux). */
+  collisions?: number;
+};
+
 export type NICInfo = {
   /** Name of the network interface (e.g. lo, eth0). */
   name: string;
@@ -85,83 +129,211 @@ export type NICInfo = {
    * The utilization cannot be determined for all interfaces, in which case it will be undefined.
    */
   utilization?: NICUtilization;
+
+  /** Current throughput of the interface, independent of whether the link speed is known. */
+  throughput?: NICThroughput;
+
+  /** Cumulative counters of the interface since it has been brought up (usually since boot). */
+  statistics?: NICStatistics;
+
+  /** Details about the connection of a wireless (Wi-Fi) interface, only if requested and undefined for other interfaces. */
+  wireless?: WirelessInfo;
 };
 
 /** Intervall in milliseconds at which network interface utilization is computed. */
 export let NET_COMPUTE_UTILIZATION_INTERVAL = 1000;
 
+const NET_COMPUTE_UTILIZATION_INITIAL_DELAY = 50;
+
+/** Files in /sys/class/net/<nic>/statistics by key of NICStatistics. */
+const NET_SYSFS_STATISTICS: [keyof NICStatistics, string][] = [
+  ['receivedBytes', 'rx_bytes'],
+  ['transmittedBytes', 'tx_bytes'],
+  ['receivedPackets', 'rx_packets'],
+  ['transmittedPackets', 'tx_packets'],
+  ['receiveErrors', 'rx_errors'],
+  ['transmitErrors', 'tx_errors'],
+  ['receiveDrops', 'rx_dropped'],
+  ['transmitDrops', 'tx_dropped'],
+  ['collisions', 'collisions'],
+];
+
 let NET_LAST_COMPUTE: number = 0;
-const NET_LAST_STATS: { [nic: string]: { receivedBytes: number; transmittedBytes: number } } = {};
-const NET_BYTES_PER_SECOND: { [nic: string]: { receive: number; transmit: number } } = {}; // bytes/s
+let NET_STATISTICS: { [nic: string]: NICStatistics } = {};
+let NET_THROUGHPUT: { [nic: string]: NICThroughput } = {};
 let NET_COMPUTE_RUNNING = false;
 let NET_COMPUTE_TIMEOUT: NodeJS.Timeout | null = null;
 
+/**
+ * Parses the interface statistics of macOS.
+ *
+ * @param output Output of netstat -ibdn.
+ * @returns Statistics keyed by interface name (e.g. en0).
+ */
+export function parseNetstatInterfaceStatistics(output: string): { [nic: string]: NICStatistics } {
+  const lines = output.split('\n').filter((line) => line.trim());
+  const header = (lines.shift() || '').trim().split(/\s+/);
+  // the address column is empty for some interfaces, so the counters are aligned from the right
+  const columns = header.slice(header.indexOf('Address') + 1);
+  const statistics: { [nic: string]: NICStatistics } = {};
+  for (const line of lines) {
+    const parts = line.trim().split(/\s+/);
+    if (columns.length === 0 || !parts[2]?.startsWith('<Link#')) continue; // other rows repeat the counters per address
+    const values: { [column: string]: number } = {};
+    parts.slice(-columns.length).forEach((value, i) => (values[columns[i]] = parseInt(value, 10) || 0));
+    statistics[parts[0].replace(/\*$/, '')] = {
+      receivedBytes: values.Ibytes ?? 0,
+      transmittedBytes: values.Obytes ?? 0,
+      receivedPackets: values.Ipkts ?? 0,
+      transmittedPackets: values.Opkts ?? 0,
+      receiveErrors: values.Ierrs ?? 0,
+      transmitErrors: values.Oerrs ?? 0,
+      receiveDrops: 0, // not reported by netstat
+      transmitDrops: values.Drop ?? 0,
+      collisions: values.Coll ?? 0,
+    };
+  }
+  return statistics;
+}
+
+/**
+ * Parses the interfaces of ifconfig on macOS.
+ *
+ * @param output Output of ifconfig.
+ * @returns Flags (e.g. UP, RUNNING), link status (status: active) and media speed in bits per second keyed by interface name.
+ */
+export function parseIfconfigInterfaces(output: string): {
+  [nic: string]: { flags: string[]; mtu?: number; active?: boolean; speed?: number };
+} {
+  const interfaces: { [nic: string]: { flags: string[]; mtu?: number; active?: boolean; speed?: number } } = {};
+  let curr: string | null = null;
+  for (const line of output.split('\n')) {
+    const header = line.match(/^(\S+):\s+flags=\w+<([^>]*)>(?:.*\smtu\s+(\d+))?/);
+    if (header) {
+      curr = header[1];
+      interfaces[curr] = { flags: header[2] ? header[2].split(',') : [] };
+      if (header[3]) interfaces[curr].mtu = parseInt(header[3], 10);
+      continue;
+    }
+    if (!curr) continue;
+    const [key, ...rest] = line.trim().split(':');
+    const value = rest.join(':').trim();
+    if (key === 'status') {
+      interfaces[curr].active = value === 'active';
+    } else if (key === 'media') {
+      // e.g. "autoselect (1000baseT <full-duplex>)" or "10Gbase-T <full-duplex>"
+      const match = value.match(/(\d+(?:\.\d+)?)(G?)base/i);
+      if (match) interfaces[curr].speed = parseFloat(match[1]) * (match[2] ? 1e9 : 1e6);
+    }
+  }
+  return interfaces;
+}
+
+/**
+ * Parses the hardware ports of macOS.
+ *
+ * @param output Output of networksetup -listallhardwareports.
+ * @returns Name of the hardware port (e.g. Wi-Fi, Thunderbolt Bridge) keyed by interface name.
+ */
+export function parseNetworkHardwarePorts(output: string): { [nic: string]: string } {
+  const ports: { [nic: string]: string } = {};
+  let port: string | null = null;
+  for (const line of output.split('\n')) {
+    const [key, ...rest] = line.split(':');
+    const value = rest.join(':').trim();
+    if (key.trim() === 'Hardware Port') port = value;
+    else if (key.trim() === 'Device' && port !== null && value) ports[value] = port;
+  }
+  return ports;
+}
+
 async function computeNetworkUtilization() {
+  const now = Date.now();
+  const statistics: { [nic: string]: NICStatistics } = {};
   switch (process.platform) {
     case 'linux': {
-      await Promise.allSettled([
-        ...Object.keys(NET_LAST_STATS).map(async (nic) =>
-          fs.readFile('/sys/class/net/' + nic + '/statistics/rx_bytes', 'utf8').then((data) => {
-            const receivedBytes = parseInt(data.trim(), 10) || 0;
-            const prevReceived = NET_LAST_STATS[nic]?.receivedBytes;
-            if (prevReceived !== undefined) {
-              NET_BYTES_PER_SECOND[nic].receive =
-                (receivedBytes - prevReceived) / ((Date.now() - NET_LAST_COMPUTE) / 1000);
-            }
-            NET_LAST_STATS[nic].receivedBytes = receivedBytes;
-          }),
-        ),
-        ...Object.keys(NET_LAST_STATS).map(async (nic) =>
-          fs.readFile('/sys/class/net/' + nic + '/statistics/tx_bytes', 'utf8').then((data) => {
-            const sentBytes = parseInt(data.trim(), 10) || 0;
-            const prevSent = NET_LAST_STATS[nic]?.transmittedBytes;
-            if (prevSent !== undefined) {
-              NET_BYTES_PER_SECOND[nic].transmit = (sentBytes - prevSent) / ((Date.now() - NET_LAST_COMPUTE) / 1000);
-            }
-            NET_LAST_STATS[nic].transmittedBytes = sentBytes;
-          }),
-        ),
-      ]);
+      const nics = await fs.readdir('/sys/class/net').catch(() => [] as string[]);
+      await Promise.all(
+        nics.map(async (nic) => {
+          const values = await Promise.all(
+            NET_SYSFS_STATISTICS.map(([, file]) =>
+              fs
+                .readFile('/sys/class/net/' + nic + '/statistics/' + file, 'utf8')
+                .then((data) => parseInt(data.trim(), 10))
+                .catch(() => NaN),
+            ),
+          );
+          if (Number.isNaN(values[0])) return; // interface has no statistics
+          const stats = {} as NICStatistics;
+          NET_SYSFS_STATISTICS.forEach(([key], i) => (stats[key] = Number.isNaN(values[i]) ? 0 : values[i]));
+          statistics[nic] = stats;
+        }),
+      );
       break;
     }
 
     case 'win32': {
       const output = await execCommand(
-        'powershell -Command "Get-NetAdapterStatistics | Select-Object Name, ReceivedBytes, SentBytes | Format-List"',
+        'powershell -Command "Get-NetAdapterStatistics | Select-Object Name, ReceivedBytes, SentBytes, ReceivedUnicastPackets, ReceivedMulticastPackets, ReceivedBroadcastPackets, SentUnicastPackets, SentMulticastPackets, SentBroadcastPackets, ReceivedPacketErrors, OutboundPacketErrors, ReceivedDiscardedPackets, OutboundDiscardedPackets | Format-List"',
       ).catch(() => '');
       const lines = output.split('\n');
-      const durationSec = (Date.now() - NET_LAST_COMPUTE) / 1000;
       let currNic: string | null = null;
       // tslint:disable-next-line:prefer-for-of
       for (let i = 0; i < lines.length; i++) {
         const [key, value] = lines[i].split(' : ').map((part) => part.trim());
         if (key === 'Name') {
-          currNic = value;
+          currNic = value || null;
+          if (currNic)
+            statistics[currNic] = {
+              receivedBytes: 0,
+              transmittedBytes: 0,
+              receivedPackets: 0,
+              transmittedPackets: 0,
+              receiveErrors: 0,
+              transmitErrors: 0,
+              receiveDrops: 0,
+              transmitDrops: 0,
+            };
         }
         if (!currNic) continue;
-        if (!NET_LAST_STATS[currNic]) NET_LAST_STATS[currNic] = { receivedBytes: 0, transmittedBytes: 0 };
-        if (!NET_BYTES_PER_SECOND[currNic]) NET_BYTES_PER_SECOND[currNic] = { receive: 0, transmit: 0 };
-
-        if (key === 'ReceivedBytes') {
-          const receivedBytes = parseInt(value, 10) || 0;
-          const prevReceived = NET_LAST_STATS[currNic]?.receivedBytes;
-          if (prevReceived !== undefined) {
-            NET_BYTES_PER_SECOND[currNic].receive = (receivedBytes - prevReceived) / durationSec;
-          }
-          NET_LAST_STATS[currNic].receivedBytes = receivedBytes;
-        } else if (key === 'SentBytes') {
-          const sentBytes = parseInt(value, 10) || 0;
-          const prevSent = NET_LAST_STATS[currNic]?.transmittedBytes;
-          if (prevSent !== undefined) {
-            NET_BYTES_PER_SECOND[currNic].transmit = (sentBytes - prevSent) / durationSec;
-          }
-          NET_LAST_STATS[currNic].transmittedBytes = sentBytes;
-        }
+        const stats = statistics[currNic];
+        const num = parseInt(value, 10) || 0;
+        if (key === 'ReceivedBytes') stats.receivedBytes = num;
+        else if (key === 'SentBytes') stats.transmittedBytes = num;
+        else if (/^Received(Unicast|Multicast|Broadcast)Packets$/.test(key)) stats.receivedPackets += num;
+        else if (/^Sent(Unicast|Multicast|Broadcast)Packets$/.test(key)) stats.transmittedPackets += num;
+        else if (key === 'ReceivedPacketErrors') stats.receiveErrors = num;
+        else if (key === 'OutboundPacketErrors') stats.transmitErrors = num;
+        else if (key === 'ReceivedDiscardedPackets') stats.receiveDrops = num;
+        else if (key === 'OutboundDiscardedPackets') stats.transmitDrops = num;
       }
       break;
     }
+
+    case 'darwin': {
+      const output = await execCommand('netstat -ibdn').catch(() => '');
+      Object.assign(statistics, parseNetstatInterfaceStatistics(output));
+      break;
+    }
   }
-  NET_LAST_COMPUTE = Date.now();
+
+  // rates since the last computation, counters that have been reset are ignored
+  const durationSec = (now - NET_LAST_COMPUTE) / 1000;
+  const throughput: { [nic: string]: NICThroughput } = {};
+  for (const [nic, curr] of Object.entries(statistics)) {
+    const prev = NET_STATISTICS[nic];
+    if (!prev || durationSec <= 0) continue;
+    const rate = (key: keyof NICStatistics) => Math.max(0, (curr[key] ?? 0) - (prev[key] ?? 0)) / durationSec;
+    throughput[nic] = {
+      receiveBytes: rate('receivedBytes'),
+      transmitBytes: rate('transmittedBytes'),
+      receivePackets: rate('receivedPackets'),
+      transmitPackets: rate('transmittedPackets'),
+    };
+  }
+  NET_STATISTICS = statistics;
+  NET_THROUGHPUT = throughput;
+  NET_LAST_COMPUTE = now;
 }
 
 async function runNetComputeInterval() {
@@ -181,6 +353,13 @@ export function stopNetworkUtilizationComputation() {
   NET_COMPUTE_RUNNING = false;
 }
 
+/**
+ * Checks if the computation of network utilization is currently running in the background.
+ */
+export function isNetworkUtilizationComputationRunning(): boolean {
+  return NET_COMPUTE_RUNNING;
+}
+
 /**
  * Tries to connect to a given server over TCP.
  *
@@ -333,11 +512,13 @@ export async function getPrimaryNetworkInterfaces(): Promise<NICInfo[]> {
 /**
  * Returns information about the network interfaces on the system.
  *
+ * @param includeWireless If the details of wireless interfaces should be attached (see getWirelessInfo, spawns nmcli, iw or netsh).
  * @returns List of NICInfo objects.
  */
-export async function getNetworkInterfaces(): Promise<NICInfo[]> {
+export async function getNetworkInterfaces(includeWireless: boolean = false): Promise<NICInfo[]> {
   if (!NET_COMPUTE_RUNNING) {
     await runNetComputeInterval(); // runs the first computation immediately
+    await sleep(NET_COMPUTE_UTILIZATION_INITIAL_DELAY); // wait a bit to get initial values
     await computeNetworkUtilization(); // run second computation immediately to get initial values
   }
   const primaryIp = await getPrimaryIp();
@@ -449,15 +630,6 @@ export async function getNetworkInterfaces(): Promise<NICInfo[]> {
                 bits,
                 bytes, // Convert from bps to Bps (bytes/s)
               };
-
-              // compute utilization
-              const utilization = NET_BYTES_PER_SECOND[currNic];
-              if (utilization) {
-                nics[currNic].utilization = {
-                  receive: utilization.receive / bytes,
-                  transmit: utilization.transmit / bytes,
-                };
-              }
             } else if (key.startsWith('ConnectorPresent')) {
               const present = value.toLowerCase() === 'true';
               nics[currNic].status.cable = present;
@@ -468,6 +640,50 @@ export async function getNetworkInterfaces(): Promise<NICInfo[]> {
         .catch(() => '');
       break;
     }
+
+    case 'darwin': {
+      const [interfaces, hardwarePorts] = await Promise.all([
+        execCommand('ifconfig')
+          .then(parseIfconfigInterfaces)
+          .catch(() => ({}) as ReturnType<typeof parseIfconfigInterfaces>),
+        execCommand('networksetup -listallhardwareports')
+          .then(parseNetworkHardwarePorts)
+          .catch(() => ({}) as { [nic: string]: string }),
+      ]);
+      for (const nic of Object.values(nics)) {
+        const iface = interfaces[nic.name];
+        const port = hardwarePorts[nic.name];
+        if (iface) {
+          const up = iface.flags.includes('UP') && iface.flags.includes('RUNNING') && iface.active !== false;
+          nic.status.operational = up ? 'up' : 'down';
+          nic.status.admin = iface.flags.includes('UP');
+          nic.status.cable = iface.active === true && port !== undefined && !/wi-?fi|airport/i.test(port);
+          if (iface.speed) nic.speed = { bits: iface.speed, bytes: Math.floor(iface.speed / 8) };
+        }
+        // virtual interfaces (e.g. utun0, awdl0) are not listed as hardware ports, bridges are listed but virtual
+        if (Object.keys(hardwarePorts).length > 0) nic.physical = port !== undefined && !/bridge/i.test(port);
+      }
+      break;
+    }
+  }
+
+  // wireless details of Wi-Fi interfaces
+  if (includeWireless) {
+    const wireless = await getWirelessInfo().catch(() => ({}) as { [nic: string]: WirelessInfo });
+    for (const [name, info] of Object.entries(wireless)) if (nics[name]) nics[name].wireless = info;
+  }
+
+  // statistics, throughput and link utilization (only if the speed is known)
+  for (const nic of Object.values(nics)) {
+    if (NET_STATISTICS[nic.name]) nic.statistics = NET_STATISTICS[nic.name];
+    const throughput = NET_THROUGHPUT[nic.name];
+    if (!throughput) continue;
+    nic.throughput = throughput;
+    if (nic.speed?.bytes)
+      nic.utilization = {
+        receive: throughput.receiveBytes / nic.speed.bytes,
+        transmit: throughput.transmitBytes / nic.speed.bytes,
+      };
   }
 
   // post process
@@ -1,4 +1,83 @@
+import fs from 'fs/promises';
 import os from 'os';
+import { execCommand, parseDate } from './utils';
+
+export type VirtualizationInfo = {
+  /** If the system runs inside a virtual machine. */
+  virtualMachine: boolean;
+
+  /** Vendor of the hypervisor if running inside a virtual machine. */
+  hypervisor?: 'kvm' | 'qemu' | 'vmware' | 'hyper-v' | 'xen' | 'virtualbox' | 'parallels' | 'bhyve' | string;
+
+  /** If the process runs inside a container. */
+  container: boolean;
+
+  /** Container runtime if running inside a container. */
+  containerRuntime?: 'docker' | 'podman' | 'containerd' | 'cri-o' | 'lxc' | 'systemd-nspawn' | string;
+
+  /** If the process runs inside a Kubernetes pod. */
+  kubernetes: boolean;
+
+  /** Version of the Windows Subsystem for Linux if running inside WSL. */
+  wsl?: 1 | 2;
+
+  /** Cloud provider hinted by the firmware (DMI) strings. */
+  cloudProvider?: 'aws' | 'gcp' | 'azure' | 'digitalocean' | 'hetzner' | 'oracle' | 'alibaba' | 'openstack' | string;
+};
+
+export type OSDistribution = {
+  /** Machine readable identifier of the distribution (e.g., ubuntu, debian, fedora, windows, macos). */
+  id: string;
+
+  /** Name of the distribution (e.g., Ubuntu, Windows 11 Pro, macOS). */
+  name: string;
+
+  /** Version of the distribution (e.g., 24.04.1 LTS (Noble Numbat), 23H2, 14.5). */
+  version?: string;
+
+  /** Machine readable version of the distribution (e.g., 24.04). */
+  versionId?: string;
+
+  /** Codename of the release (e.g., noble, bookworm). */
+  codename?: string;
+
+  /** Identifiers of the distributions this one is derived from (e.g., ["debian"] for Ubuntu). */
+  idLike?: string[];
+
+  /** Edition of the operating system (e.g., Professional on Windows). */
+  edition?: string;
+
+  /** Build number of the operating system (e.g., 22631.3880 on Windows, 23F79 on macOS). */
+  build?: string;
+};
+
+export type KernelInfo = {
+  /** Name of the kernel (e.g., Linux, Darwin, Windows_NT). */
+  name: string;
+
+  /** Release of the kernel (e.g., 6.8.0-45-generic). */
+  release: string;
+
+  /** Build information of the kernel (e.g., #45-Ubuntu SMP PREEMPT_DYNAMIC Fri Aug 30 12:02:04 UTC 2024). */
+  version: string;
+};
+
+export type FirmwareInfo = {
+  /** Type of the firmware interface. */
+  type: 'uefi' | 'bios' | 'unknown';
+
+  /** Vendor of the firmware. */
+  vendor?: string;
+
+  /** Version of the firmware. */
+  version?: string;
+
+  /** Release date of the firmware. */
+  date?: Date;
+
+  /** If secure boot is enabled, undefined if unknown (e.g. not UEFI or insufficient privileges). */
+  secureBoot?: boolean;
+};
 
 export type OSInfo = {
   /** Name of the operating system (e.g., Windows, Linux, macOS). */
@@ -36,14 +115,347 @@ export type OSInfo = {
 
   /** Date since when the system has been booted. */
   uptime?: Date;
+
+  /** Information about virtualization and containerization of the system. */
+  virtualization?: VirtualizationInfo;
+
+  /** Distribution (Linux) or edition (Windows, macOS) of the operating system. */
+  distribution?: OSDistribution;
+
+  /** Information about the kernel. */
+  kernel?: KernelInfo;
+
+  /** Date at which the operating system has been installed (best effort). */
+  installDate?: Date;
+
+  /** IANA time zone of the system (e.g., Europe/Berlin). */
+  timezone?: string;
+
+  /** Locale of the system (e.g., en-US). */
+  locale?: string;
+
+  /** Information about the BIOS/UEFI firmware. */
+  firmware?: FirmwareInfo;
 };
 
+/** GUID of the EFI global variables (e.g. SecureBoot). */
+const EFI_GLOBAL_VARIABLE_GUID = '8be4df61-93ca-11d2-aa0d-e98c0344c6a7';
+
+/**
+ * Parses the content of an os-release file (e.g. /etc/os-release).
+ *
+ * @param content Content of the file with lines of format KEY="value".
+ * @returns Keys and their unquoted values.
+ */
+function parseOSRelease(content: string): { [key: string]: string } {
+  const result: { [key: string]: string } = {};
+  for (const line of content.split('\n')) {
+    const match = line.trim().match(/^([A-Z0-9_]+)=(.*)$/);
+    if (!match) continue;
+    let value = match[2].trim();
+    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'")))
+      value = value.slice(1, -1);
+    result[match[1]] = value.replace(/\\(["'$`\\])/g, '$1');
+  }
+  return result;
+}
+
+/**
+ * Reads the distribution, install date and firmware details of the operating system.
+ *
+ * @returns Platform specific fields of the OS information.
+ */
+async function getOSDetails(): Promise<Pick<OSInfo, 'distribution' | 'installDate' | 'firmware'>> {
+  const details: Pick<OSInfo, 'distribution' | 'installDate' | 'firmware'> = {};
+
+  switch (process.platform) {
+    case 'linux': {
+      const read = (file: string) =>
+        fs
+          .readFile(file, 'utf8')
+          .then((data) => data.trim())
+          .catch(() => '');
+      const [osRelease, biosVendor, biosVersion, biosDate, efi, secureBoot, rootStat] = await Promise.all([
+        read('/etc/os-release').then((data) => data || read('/usr/lib/os-release')),
+        read('/sys/class/dmi/id/bios_vendor'),
+        read('/sys/class/dmi/id/bios_version'),
+        read('/sys/class/dmi/id/bios_date'),
+        fs
+          .access('/sys/firmware/efi')
+          .then(() => true)
+          .catch(() => false),
+        fs.readFile('/sys/firmware/efi/efivars/SecureBoot-' + EFI_GLOBAL_VARIABLE_GUID).catch(() => null),
+        fs.stat('/').catch(() => null),
+      ]);
+
+      const release = parseOSRelease(osRelease);
+      if (release.ID || release.NAME) {
+        details.distribution = { id: release.ID || release.NAME.toLowerCase(), name: release.NAME || release.ID };
+        if (release.VERSION) details.distribution.version = release.VERSION;
+        if (release.VERSION_ID) details.distribution.versionId = release.VERSION_ID;
+        const codename = release.VERSION_CODENAME || release.UBUNTU_CODENAME;
+        if (codename) details.distribution.codename = codename;
+        if (release.ID_LIKE) details.distribution.idLike = release.ID_LIKE.split(/\s+/);
+        if (release.BUILD_ID) details.distribution.build = release.BUILD_ID;
+        if (release.VARIANT) details.distribution.edition = release.VARIANT;
+      }
+
+      // the root file system is created during the installation (birth time is not supported by every file system)
+      if (rootStat && rootStat.birthtimeMs > 0) details.installDate = rootStat.birthtime;
+
+      details.firmware = { type: efi ? 'uefi' : 'bios' };
+      if (biosVendor) details.firmware.vendor = biosVendor;
+      if (biosVersion) details.firmware.version = biosVersion;
+      const date = parseDate(biosDate); // format MM/DD/YYYY
+      if (date) details.firmware.date = date;
+      // efivars start with 4 bytes of attributes followed by the value
+      if (secureBoot && secureBoot.length >= 5) details.firmware.secureBoot = secureBoot[4] === 1;
+      break;
+    }
+
+    case 'win32': {
+      const output = await execCommand(
+        "powershell -Command \"$os = Get-CimInstance -ClassName Win32_OperatingSystem; $cv = Get-ItemProperty 'HKLM:\\SOFTWARE\\Microsoft\\Windows NT\\CurrentVersion'; $bios = Get-CimInstance -ClassName Win32_BIOS; $sb = try { Confirm-SecureBootUEFI -ErrorAction Stop } catch { $null }; [PSCustomObject]@{ Caption = $os.Caption; Version = $os.Version; BuildNumber = $os.BuildNumber; InstallDate = $os.InstallDate.ToString('o'); EditionID = $cv.EditionID; DisplayVersion = $cv.DisplayVersion; UBR = $cv.UBR; BiosVendor = $bios.Manufacturer; BiosVersion = $bios.SMBIOSBIOSVersion; BiosDate = $bios.ReleaseDate.ToString('o'); FirmwareType = (Get-ItemProperty 'HKLM:\\SYSTEM\\CurrentControlSet\\Control').PEFirmwareType; SecureBoot = $sb } | ConvertTo-Json\"",
+      ).catch(() => '');
+      let json: any = {};
+      try {
+        json = JSON.parse(output) ?? {};
+        // tslint:disable-next-line:no-empty
+      } catch {}
+
+      if (json.Caption) {
+        details.distribution = {
+          id: 'windows',
+          name: String(json.Caption)
+            .replace(/^Microsoft\s+/, '')
+            .trim(),
+        };
+        if (json.DisplayVersion) details.distribution.version = String(json.DisplayVersion);
+        if (json.Version) details.distribution.versionId = String(json.Version);
+        if (json.EditionID) details.distribution.edition = String(json.EditionID);
+        if (json.BuildNumber)
+          details.distribution.build = String(json.BuildNumber) + (json.UBR !== undefined ? '.' + json.UBR : '');
+      }
+      const installDate = parseDate(json.InstallDate);
+      if (installDate) details.installDate = installDate;
+
+      // PEFirmwareType is 1 for BIOS and 2 for UEFI
+      const firmwareType = parseInt(json.FirmwareType, 10);
+      details.firmware = { type: firmwareType === 2 ? 'uefi' : firmwareType === 1 ? 'bios' : 'unknown' };
+      if (json.BiosVendor) details.firmware.vendor = String(json.BiosVendor).trim();
+      if (json.BiosVersion) details.firmware.version = String(json.BiosVersion).trim();
+      const biosDate = parseDate(json.BiosDate);
+      if (biosDate) details.firmware.date = biosDate;
+      if (typeof json.SecureBoot === 'boolean') details.firmware.secureBoot = json.SecureBoot;
+      break;
+    }
+
+    case 'darwin': {
+      const [swVers, hardware] = await Promise.all([
+        execCommand('sw_vers').catch(() => ''),
+        execCommand('system_profiler SPHardwareDataType').catch(() => ''),
+      ]);
+      const values: { [key: string]: string } = {};
+      for (const line of (swVers + '\n' + hardware).split('\n')) {
+        const index = line.indexOf(':');
+        if (index < 0) continue;
+        values[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+      }
+
+      if (values.ProductVersion) {
+        details.distribution = {
+          id: 'macos',
+          name: values.ProductName || 'macOS',
+          version: values.ProductVersion,
+          versionId: values.ProductVersion,
+        };
+        if (values.BuildVersion) details.distribution.build = values.BuildVersion;
+      }
+
+      // Macs always boot via EFI (Intel) or iBoot (Apple Silicon)
+      details.firmware = { type: 'uefi', vendor: 'Apple Inc.' };
+      const firmwareVersion = values['System Firmware Version'] || values['Boot ROM Version'];
+      if (firmwareVersion) details.firmware.version = firmwareVersion;
+      break;
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Detects hypervisor and cloud provider from firmware (DMI/SMBIOS) strings.
+ *
+ * @param values Firmware strings like system vendor, product name, BIOS vendor or chassis asset tag.
+ * @returns Detected hypervisor and cloud provider.
+ */
+function detectVirtualizationFromFirmware(values: string[]): { hypervisor?: string; cloudProvider?: string } {
+  const str = values.join(' ').toLowerCase();
+  const result: { hypervisor?: string; cloudProvider?: string } = {};
+
+  if (str.includes('amazon ec2') || str.includes('amazon.com')) result.cloudProvider = 'aws';
+  else if (str.includes('google')) result.cloudProvider = 'gcp';
+  // Azure reports a fixed chassis asset tag
+  else if (str.includes('7783-7084-3265-9085-8269-3286-77')) result.cloudProvider = 'azure';
+  else if (str.includes('digitalocean')) result.cloudProvider = 'digitalocean';
+  else if (str.includes('hetzner')) result.cloudProvider = 'hetzner';
+  else if (str.includes('oraclecloud')) result.cloudProvider = 'oracle';
+  else if (str.includes('alibaba')) result.cloudProvider = 'alibaba';
+  else if (str.includes('openstack')) result.cloudProvider = 'openstack';
+
+  if (str.includes('vmware')) result.hypervisor = 'vmware';
+  else if (str.includes('virtualbox') || str.includes('innotek')) result.hypervisor = 'virtualbox';
+  else if (str.includes('parallels')) result.hypervisor = 'parallels';
+  else if (str.includes('bhyve')) result.hypervisor = 'bhyve';
+  else if (str.includes('xen')) result.hypervisor = 'xen';
+  else if (str.includes('qemu')) result.hypervisor = 'qemu';
+  else if (str.includes('kvm') || result.cloudProvider === 'aws' || result.cloudProvider === 'gcp')
+    result.hypervisor = 'kvm';
+  else if (str.includes('microsoft corporation') && str.includes('virtual machine')) result.hypervisor = 'hyper-v';
+  else if (result.cloudProvider === 'azure') result.hypervisor = 'hyper-v';
+  return result;
+}
+
+/**
+ * Returns information about whether the system runs inside a virtual machine, container or WSL.
+ *
+ * @returns Virtualization information.
+ */
+export async function getVirtualizationInfo(): Promise<VirtualizationInfo> {
+  const info: VirtualizationInfo = { virtualMachine: false, container: false, kubernetes: false };
+
+  switch (process.platform) {
+    case 'linux': {
+      const read = (file: string) =>
+        fs
+          .readFile(file, 'utf8')
+          .then((data) => data.trim())
+          .catch(() => '');
+      const exists = (file: string) =>
+        fs
+          .access(file)
+          .then(() => true)
+          .catch(() => false);
+      const [sysVendor, productName, productVersion, biosVendor, assetTag, hypervisorType, cpuInfo] = await Promise.all(
+        [
+          read('/sys/class/dmi/id/sys_vendor'),
+          read('/sys/class/dmi/id/product_name'),
+          read('/sys/class/dmi/id/product_version'),
+          read('/sys/class/dmi/id/bios_vendor'),
+          read('/sys/class/dmi/id/chassis_asset_tag'),
+          read('/sys/hypervisor/type'),
+          read('/proc/cpuinfo'),
+        ],
+      );
+      const [osRelease, initCgroup, dockerEnv, containerEnv] = await Promise.all([
+        read('/proc/sys/kernel/osrelease'),
+        read('/proc/1/cgroup'),
+        exists('/.dockerenv'),
+        exists('/run/.containerenv'),
+      ]);
+
+      // virtual machine
+      const firmware = detectVirtualizationFromFirmware([sysVendor, productName, productVersion, biosVendor, assetTag]);
+      if (firmware.cloudProvider) info.cloudProvider = firmware.cloudProvider;
+      if (firmware.hypervisor) info.hypervisor = firmware.hypervisor;
+      if (hypervisorType) info.hypervisor = info.hypervisor || hypervisorType.toLowerCase(); // e.g. xen
+      if (/^flags\s*:.*\bhypervisor\b/m.test(cpuInfo)) info.virtualMachine = true;
+
+      // WSL (kernel release contains "microsoft", WSL 2 uses a real kernel named "microsoft-standard-WSL2")
+      const osReleaseLower = osRelease.toLowerCase();
+      if (osReleaseLower.includes('microsoft')) {
+        info.wsl = osReleaseLower.includes('wsl2') || osReleaseLower.includes('microsoft-standard') ? 2 : 1;
+        if (info.wsl === 2) info.hypervisor = info.hypervisor || 'hyper-v';
+      }
+
+      // container
+      if (containerEnv) info.containerRuntime = 'podman';
+      else if (dockerEnv) info.containerRuntime = 'docker';
+      else if (initCgroup.includes('libpod')) info.containerRuntime = 'podman';
+      else if (initCgroup.includes('docker')) info.containerRuntime = 'docker';
+      else if (initCgroup.includes('crio')) info.containerRuntime = 'cri-o';
+      else if (initCgroup.includes('containerd')) info.containerRuntime = 'containerd';
+      else if (initCgroup.includes('/lxc')) info.containerRuntime = 'lxc';
+      info.kubernetes = !!process.env.KUBERNETES_SERVICE_HOST || initCgroup.includes('kubepods');
+
+      // systemd-detect-virt knows many more heuristics, so it is used if available
+      const [vm, container] = await Promise.all([
+        execCommand('systemd-detect-virt --vm', true).catch(() => ''),
+        execCommand('systemd-detect-virt --container', true).catch(() => ''),
+      ]);
+      const vmName = vm.trim().split('\n')[0];
+      if (/^[a-z0-9_-]+$/.test(vmName) && vmName !== 'none') {
+        info.virtualMachine = true;
+        info.hypervisor =
+          info.hypervisor || (vmName === 'microsoft' ? 'hyper-v' : vmName === 'oracle' ? 'virtualbox' : vmName);
+      }
+      const containerName = container.trim().split('\n')[0];
+      if (/^[a-z0-9_-]+$/.test(containerName) && containerName !== 'none') {
+        if (containerName === 'wsl') info.wsl = info.wsl || 1;
+        else info.containerRuntime = info.containerRuntime || containerName;
+      }
+
+      if (info.hypervisor) info.virtualMachine = true;
+      if (info.containerRuntime || info.kubernetes) info.container = true;
+      break;
+    }
+
+    case 'win32': {
+      const output = await execCommand(
+        'powershell -Command "Get-CimInstance -ClassName Win32_ComputerSystem | Select-Object Manufacturer, Model, HypervisorPresent | Format-List; Get-CimInstance -ClassName Win32_BIOS | Select-Object Manufacturer, SMBIOSBIOSVersion | Format-List; Get-CimInstance -ClassName Win32_SystemEnclosure | Select-Object SMBIOSAssetTag | Format-List"',
+      ).catch(() => '');
+      const values: string[] = [];
+      for (const line of output.split('\n')) {
+        const [key, value] = line.split(' : ').map((part) => part.trim());
+        if (!key || !value) continue;
+        values.push(value);
+      }
+      const firmware = detectVirtualizationFromFirmware(values);
+      if (firmware.cloudProvider) info.cloudProvider = firmware.cloudProvider;
+      if (firmware.hypervisor) {
+        info.hypervisor = firmware.hypervisor;
+        info.virtualMachine = true;
+      }
+      // HypervisorPresent is also true on bare metal hosts with Hyper-V or virtualization based security enabled
+      break;
+    }
+
+    case 'darwin': {
+      const output = await execCommand('sysctl -n kern.hv_vmm_present').catch(() => '');
+      info.virtualMachine = output.trim() === '1';
+      if (info.virtualMachine) {
+        const model = await execCommand('sysctl -n hw.model').catch(() => '');
+        const firmware = detectVirtualizationFromFirmware([model]);
+        if (firmware.hypervisor) info.hypervisor = firmware.hypervisor;
+      }
+      break;
+    }
+  }
+
+  return info;
+}
+
+/** Virtualization and details of the OS, they do not change while the process is running. */
+let OS_DETAILS_CACHE: Promise<Pick<OSInfo, 'virtualization' | 'distribution' | 'installDate' | 'firmware'>> | null =
+  null;
+
 /**
  * Returns information about the operating system.
  *
+ * @param includeDetails If the virtualization, distribution, install date and firmware should be included.
+ * They are gathered once (spawning e.g. systemd-detect-virt or PowerShell) and cached afterwards.
  * @returns Operating system information.
  */
-export async function getOSInfo(): Promise<OSInfo> {
+export async function getOSInfo(includeDetails: boolean = false): Promise<OSInfo> {
+  if (includeDetails && !OS_DETAILS_CACHE) {
+    OS_DETAILS_CACHE = Promise.all([getVirtualizationInfo(), getOSDetails()]).then(([virtualization, osDetails]) => ({
+      virtualization,
+      ...osDetails,
+    }));
+    OS_DETAILS_CACHE.catch(() => (OS_DETAILS_CACHE = null)); // retry on the next call
+  }
+  const details = includeDetails ? await OS_DETAILS_CACHE! : {};
+  const resolvedOptions = Intl.DateTimeFormat().resolvedOptions();
   return {
     name: os.type().replaceAll('_NT', ''), // normalize name
     version: os.release(),
@@ -53,5 +465,9 @@ export async function getOSInfo(): Promise<OSInfo> {
     bits: os.arch().includes('64') ? 64 : 32,
     hostname: os.hostname(),
     uptime: new Date(Date.now() - os.uptime() * 1000),
+    ...details,
+    kernel: { name: os.type(), release: os.release(), version: os.version() },
+    timezone: resolvedOptions.timeZone,
+    locale: resolvedOptions.locale,
   };
 }
@@ -0,0 +1,264 @@
+import fs from 'fs/promises';
+import os from 'os';
+import { execCommand, sleep } from './utils';
+
+export type ProcessMemory = {
+  /** Resident set size (physical memory held by the process) in bytes. */
+  rss: number;
+
+  /** Virtual memory size of the process in bytes. */
+  virtual: number;
+};
+
+export type ProcessInfo = {
+  /** Process ID. */
+  pid: number;
+
+  /** Process ID of the parent process. */
+  parentPid: number;
+
+  /** Name of the process (e.g., node, chrome.exe). */
+  name: string;
+
+  /** Full command line the process has been started with (empty if not accessible). */
+  command: string;
+
+  /** Name of the user owning the process, if available. */
+  user?: string;
+
+  /** Current scheduling state of the process. */
+  state: 'running' | 'sleeping' | 'waiting' | 'stopped' | 'zombie' | 'idle' | 'unknown';
+
+  /** Share of the overall CPU time (all cores) used by the process as a percentage (0.0-1.0). */
+  cpu: number;
+
+  /** Memory usage of the process. */
+  memory: ProcessMemory;
+};
+
+/** Intervall in milliseconds at which the CPU utilization of processes is computed. */
+export let PROCESS_COMPUTE_UTILIZATION_INTERVAL = 1000;
+
+const PROCESS_COMPUTE_UTILIZATION_INITIAL_DELAY = 100;
+
+let PREV_PROCESS_TOTAL_TIME = 0;
+let PREV_PROCESS_TIMES: { [pid: number]: number } = {};
+let PROCESS_CPU_UTILIZATION: { [pid: number]: number } = {};
+let PROCESS_COMPUTE_RUNNING = false;
+let PROCESS_COMPUTE_TIMEOUT: NodeJS.Timeout | null = null;
+
+/**
+ * Reads the consumed CPU time of every process and the total CPU time of the system.
+ * Both values are in the same platform specific unit (jiffies on Linux, 100 ns ticks on Windows).
+ */
+async function readProcessCpuTimes(): Promise<{ total: number; processes: { [pid: number]: number } }> {
+  const processes: { [pid: number]: number } = {};
+  let total = 0;
+  switch (process.platform) {
+    case 'linux': {
+      const stat = await fs.readFile('/proc/stat', 'utf8').catch(() => '');
+      const cpuLine = stat.split('\n').find((line) => line.startsWith('cpu '));
+      if (cpuLine) {
+        // user nice system idle iowait irq softirq steal (guest times are already included in user and nice)
+        const times = cpuLine.trim().split(/\s+/).slice(1, 9);
+        for (const time of times) total += parseInt(time, 10) || 0;
+      }
+      const pids = (await fs.readdir('/proc').catch(() => [] as string[])).filter((file) => /^\d+$/.test(file));
+      await Promise.allSettled(
+        pids.map(async (pid) => {
+          const data = await fs.readFile('/proc/' + pid + '/stat', 'utf8');
+          const fields = data.substring(data.lastIndexOf(')') + 2).split(' '); // process name can contain spaces
+          const utime = parseInt(fields[11], 10);
+          const stime = parseInt(fields[12], 10);
+          if (!Number.isNaN(utime) && !Number.isNaN(stime)) processes[parseInt(pid, 10)] = utime + stime;
+        }),
+      );
+      break;
+    }
+
+    case 'win32': {
+      const output = await execCommand(
+        'powershell -Command "Get-CimInstance -ClassName Win32_Process | Select-Object ProcessId, KernelModeTime, UserModeTime | Format-List"',
+      ).catch(() => '');
+      total = Date.now() * 10000 * os.cpus().length; // wall time of all cores in 100 ns ticks
+      const lines = output.split('\n');
+      let currPid: number | null = null;
+      // tslint:disable-next-line:prefer-for-of
+      for (let i = 0; i < lines.length; i++) {
+        const [key, value] = lines[i].split(' : ').map((s) => s.trim());
+        if (key === 'ProcessId') {
+          currPid = parseInt(value, 10);
+          if (Number.isNaN(currPid)) currPid = null;
+          else processes[currPid] = 0;
+        }
+        if (currPid === null) continue;
+        if (key === 'KernelModeTime' || key === 'UserModeTime') {
+          processes[currPid] += parseInt(value, 10) || 0;
+        }
+      }
+      break;
+    }
+  }
+  return { total, processes };
+}
+
+async function computeProcessUtilization() {
+  const { total, processes } = await readProcessCpuTimes();
+  const elapsed = total - PREV_PROCESS_TOTAL_TIME;
+  const utilization: { [pid: number]: number } = {};
+  for (const key of Object.keys(processes)) {
+    const pid = parseInt(key, 10);
+    const prev = PREV_PROCESS_TIMES[pid];
+    utilization[pid] = prev !== undefined && elapsed > 0 ? Math.max(0, processes[pid] - prev) / elapsed : 0;
+  }
+  PROCESS_CPU_UTILIZATION = utilization; // drops processes that no longer exist
+  PREV_PROCESS_TIMES = processes;
+  PREV_PROCESS_TOTAL_TIME = total;
+}
+
+async function runProcessComputeInterval() {
+  PROCESS_COMPUTE_RUNNING = true;
+  await computeProcessUtilization();
+  if (PROCESS_COMPUTE_RUNNING)
+    PROCESS_COMPUTE_TIMEOUT = setTimeout(runProcessComputeInterval, Math.max(PROCESS_COMPUTE_UTILIZATION_INTERVAL, 1));
+}
+
+/**
+ * Stops the computation of the CPU utilization of processes.
+ * As soon as the getProcesses function is called again, the computation will be restarted.
+ */
+export function stopProcessUtilizationComputation() {
+  if (PROCESS_COMPUTE_TIMEOUT) clearTimeout(PROCESS_COMPUTE_TIMEOUT);
+  PROCESS_COMPUTE_TIMEOUT = null;
+  PROCESS_COMPUTE_RUNNING = false;
+}
+
+/**
+ * Maps the state letter of /proc/<pid>/status to a process state.
+ *
+ * @param state State letter (e.g., R, S, D).
+ * @returns Process state.
+ */
+function parseLinuxProcessState(state: string): ProcessInfo['state'] {
+  switch (state) {
+    case 'R':
+      return 'running';
+    case 'S':
+      return 'sleeping';
+    case 'D':
+      return 'waiting'; // uninterruptible sleep (usually I/O)
+    case 'T':
+    case 't':
+      return 'stopped';
+    case 'Z':
+    case 'X':
+      return 'zombie';
+    case 'I':
+      return 'idle';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Returns information about the processes running on the system.
+ * If the computation of the CPU utilization is not running, it will be started and initial values are returned.
+ *
+ * @returns List of processes sorted by their process ID.
+ */
+export async function getProcesses(): Promise<ProcessInfo[]> {
+  if (!PROCESS_COMPUTE_RUNNING) {
+    await runProcessComputeInterval(); // runs the first computation immediately
+    await sleep(PROCESS_COMPUTE_UTILIZATION_INITIAL_DELAY); // wait a bit to get initial values
+    await computeProcessUtilization(); // run second computation immediately to get initial values
+  }
+
+  const processes: ProcessInfo[] = [];
+  switch (process.platform) {
+    case 'linux': {
+      // map user IDs to user names
+      const users: { [uid: string]: string } = {};
+      const passwd = await fs.readFile('/etc/passwd', 'utf8').catch(() => '');
+      for (const line of passwd.split('\n')) {
+        const [userName, , uid] = line.split(':');
+        if (userName && uid) users[uid] = userName;
+      }
+
+      const pids = (await fs.readdir('/proc').catch(() => [] as string[])).filter((file) => /^\d+$/.test(file));
+      await Promise.allSettled(
+        pids.map(async (pid) => {
+          const [status, cmdline] = await Promise.all([
+            fs.readFile('/proc/' + pid + '/status', 'utf8'),
+            fs.readFile('/proc/' + pid + '/cmdline', 'utf8').catch(() => ''),
+          ]);
+          const proc: ProcessInfo = {
+            pid: parseInt(pid, 10),
+            parentPid: 0,
+            name: '',
+            command: cmdline.split('\0').join(' ').trim(),
+            state: 'unknown',
+            cpu: PROCESS_CPU_UTILIZATION[parseInt(pid, 10)] || 0,
+            memory: { rss: 0, virtual: 0 },
+          };
+          for (const line of status.split('\n')) {
+            const idx = line.indexOf(':');
+            if (idx < 0) continue;
+            const key = line.substring(0, idx);
+            const value = line.substring(idx + 1).trim();
+            if (key === 'Name') {
+              proc.name = value;
+            } else if (key === 'State') {
+              proc.state = parseLinuxProcessState(value[0]);
+            } else if (key === 'PPid') {
+              proc.parentPid = parseInt(value, 10) || 0;
+            } else if (key === 'Uid') {
+              const uid = value.split(/\s+/)[0];
+              proc.user = users[uid] ?? uid;
+            } else if (key === 'VmRSS') {
+              proc.memory.rss = (parseInt(value, 10) || 0) * 1024; // convert kB to bytes
+            } else if (key === 'VmSize') {
+              proc.memory.virtual = (parseInt(value, 10) || 0) * 1024; // convert kB to bytes
+            }
+          }
+          if (!proc.command) proc.command = proc.name; // kernel threads have no command line
+          processes.push(proc);
+        }),
+      );
+      break;
+    }
+
+    case 'win32': {
+      // owners are resolved in one pass over the logon sessions (calling GetOwner per process takes seconds)
+      const output = await execCommand(
+        'powershell -Command "$users = @{}; Get-CimInstance -ClassName Win32_LoggedOnUser | ForEach-Object { $users[$_.Dependent.LogonId] = $_.Antecedent.Name }; $owners = @{}; Get-CimInstance -ClassName Win32_SessionProcess | ForEach-Object { $owners[[string]$_.Dependent.Handle] = $users[$_.Antecedent.LogonId] }; Get-CimInstance -ClassName Win32_Process | Select-Object ProcessId, ParentProcessId, Name, CommandLine, WorkingSetSize, VirtualSize, @{Name=\'Owner\';Expression={$owners[[string]$_.ProcessId]}} | ConvertTo-Json"',
+      ).catch(() => '');
+      let json: any[] = [];
+      try {
+        const parsed = JSON.parse(output);
+        json = Array.isArray(parsed) ? parsed : [parsed]; // single objects are not wrapped in an array
+        // tslint:disable-next-line:no-empty
+      } catch {}
+      for (const proc of json) {
+        const pid = parseInt(proc.ProcessId, 10);
+        if (Number.isNaN(pid)) continue;
+        const info: ProcessInfo = {
+          pid,
+          parentPid: parseInt(proc.ParentProcessId, 10) || 0,
+          name: proc.Name || '',
+          command: proc.CommandLine || proc.Name || '',
+          state: 'unknown', // Win32_Process does not report an execution state
+          cpu: PROCESS_CPU_UTILIZATION[pid] || 0,
+          memory: {
+            rss: parseInt(proc.WorkingSetSize, 10) || 0,
+            virtual: parseInt(proc.VirtualSize, 10) || 0,
+          },
+        };
+        if (proc.Owner) info.user = proc.Owner; // not available for system processes without elevation
+        processes.push(info);
+      }
+      break;
+    }
+  }
+
+  return processes.sort((a, b) => a.pid - b.pid);
+}
@@ -0,0 +1,405 @@
+import http from 'http';
+import { isCpuUtilizationComputationRunning, stopCpuUtilizationComputation } from './cpu';
+import { DriveInfo, isDriveIOUtilizationComputationRunning, stopDriveIOUtilizationComputation } from './drive';
+import { GPU } from './gpu';
+import { isNetworkUtilizationComputationRunning, NICStatistics, stopNetworkUtilizationComputation } from './net';
+import { getSystemSnapshot, SystemSnapshot, SystemSnapshotSection } from './snapshot';
+
+/** Prefix of all metric names. */
+export const PROMETHEUS_METRIC_PREFIX = 'lup_system_';
+
+/** Background computations that gathering a snapshot starts on demand. */
+const METRICS_SERVER_COMPUTATIONS: { isRunning: () => boolean; stop: () => void }[] = [
+  { isRunning: isCpuUtilizationComputationRunning, stop: stopCpuUtilizationComputation },
+  { isRunning: isDriveIOUtilizationComputationRunning, stop: stopDriveIOUtilizationComputation },
+  { isRunning: isNetworkUtilizationComputationRunning, stop: stopNetworkUtilizationComputation },
+];
+
+type PrometheusSample = {
+  labels?: { [label: string]: string | number | undefined };
+  value: number | boolean | undefined;
+};
+
+export type MetricsServerOptions = {
+  /** Port the server listens on. */
+  port: number;
+
+  /** Address of the interface to bind to (default all interfaces). */
+  host?: string;
+
+  /** Path under which the metrics are served (default '/metrics'). */
+  path?: string;
+
+  /** Sections of the system snapshot to expose (default all sections). */
+  sections?: SystemSnapshotSection[];
+};
+
+/**
+ * Escapes a label value according to the Prometheus text exposition format.
+ *
+ * @param value Label value to escape.
+ * @returns Escaped label value.
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Appends a metric family with its HELP and TYPE lines.
+ * Samples without a valid value are skipped and families without any samples are omitted.
+ */
+function appendMetric(
+  lines: string[],
+  type: 'gauge' | 'counter',
+  name: string,
+  help: string,
+  samples: PrometheusSample[],
+) {
+  const sampleLines: string[] = [];
+  for (const sample of samples) {
+    if (sample.value === undefined || (typeof sample.value === 'number' && !Number.isFinite(sample.value))) continue;
+    const labels = Object.entries(sample.labels || {})
+      .filter(([, labelValue]) => labelValue !== undefined && labelValue !== '')
+      .map(([label, labelValue]) => `${label}="${escapeLabelValue(String(labelValue))}"`)
+      .join(',');
+    const value = typeof sample.value === 'boolean' ? (sample.value ? 1 : 0) : sample.value;
+    sampleLines.push(PROMETHEUS_METRIC_PREFIX + name + (labels ? `{${labels}}` : '') + ' ' + value);
+  }
+  if (sampleLines.length === 0) return;
+  lines.push(`# HELP ${PROMETHEUS_METRIC_PREFIX + name} ${help}`);
+  lines.push(`# TYPE ${PROMETHEUS_METRIC_PREFIX + name} ${type}`);
+  lines.push(...sampleLines);
+}
+
+/**
+ * Appends a gauge metric family (value that can go up and down).
+ */
+function appendGauge(lines: string[], name: string, help: string, samples: PrometheusSample[]) {
+  appendMetric(lines, 'gauge', name, help, samples);
+}
+
+/**
+ * Appends a counter metric family (cumulative value that only increases, names end with _total).
+ */
+function appendCounter(lines: string[], name: string, help: string, samples: PrometheusSample[]) {
+  appendMetric(lines, 'counter', name, help, samples);
+}
+
+/**
+ * Converts a system snapshot into the Prometheus text exposition format.
+ *
+ * @param snapshot Snapshot as returned by getSystemSnapshot().
+ * @returns Metrics in the Prometheus text exposition format.
+ */
+export function toPrometheus(snapshot: SystemSnapshot): string {
+  const lines: string[] = [];
+
+  // cpu
+  const cpu = snapshot.cpu;
+  if (cpu) {
+    appendGauge(lines, 'cpu_cores', 'Number of logical CPU cores.', [{ value: cpu.coreCount }]);
+    appendGauge(lines, 'cpu_speed_megahertz', 'CPU speed in MHz.', [{ value: cpu.speed }]);
+    appendGauge(lines, 'cpu_utilization_ratio', 'Overall CPU utilization (0.0-1.0).', [
+      { value: cpu.utilization.overall },
+    ]);
+    appendGauge(
+      lines,
+      'cpu_core_utilization_ratio',
+      'Utilization of a CPU core (0.0-1.0).',
+      cpu.utilization.cores.map((value, core) => ({ labels: { core }, value })),
+    );
+    appendGauge(
+      lines,
+      'cpu_time_ratio',
+      'Share of CPU time spent in a mode over all cores (0.0-1.0).',
+      Object.entries(cpu.utilization.times.overall).map(([mode, value]) => ({ labels: { mode }, value })),
+    );
+  }
+
+  // memory
+  const memory = snapshot.memory;
+  if (memory) {
+    appendGauge(lines, 'memory_size_bytes', 'Total memory size in bytes.', [{ value: memory.size }]);
+    appendGauge(lines, 'memory_used_bytes', 'Used memory in bytes.', [{ value: memory.utilization.used }]);
+    appendGauge(lines, 'memory_free_bytes', 'Free memory in bytes.', [{ value: memory.utilization.free }]);
+    appendGauge(lines, 'memory_utilization_ratio', 'Memory utilization (0.0-1.0).', [
+      { value: memory.utilization.percentage },
+    ]);
+    appendGauge(lines, 'memory_available_bytes', 'Memory available without swapping in bytes.', [
+      { value: memory.utilization.available },
+    ]);
+    appendGauge(lines, 'memory_cached_bytes', 'Memory used by the page cache in bytes.', [
+      { value: memory.utilization.cached },
+    ]);
+    appendGauge(lines, 'memory_buffers_bytes', 'Memory used by block device buffers in bytes.', [
+      { value: memory.utilization.buffers },
+    ]);
+    appendGauge(lines, 'swap_size_bytes', 'Total swap space in bytes.', [{ value: memory.utilization.swap?.total }]);
+    appendGauge(lines, 'swap_used_bytes', 'Used swap space in bytes.', [{ value: memory.utilization.swap?.used }]);
+  }
+
+  // drives
+  const drives = snapshot.drives;
+  if (drives) {
+    const labels = (drive: DriveInfo) => ({
+      mount: drive.mount,
+      filesystem: drive.filesystem,
+      type: drive.type,
+    });
+    appendGauge(
+      lines,
+      'drive_size_bytes',
+      'Total size of a drive in bytes.',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.total })),
+    );
+    appendGauge(
+      lines,
+      'drive_used_bytes',
+      'Used space of a drive in bytes.',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.utilization.used })),
+    );
+    appendGauge(
+      lines,
+      'drive_free_bytes',
+      'Free space of a drive in bytes.',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.utilization.free })),
+    );
+    appendGauge(
+      lines,
+      'drive_utilization_ratio',
+      'Space utilization of a drive (0.0-1.0).',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.utilization.percentage })),
+    );
+    appendGauge(
+      lines,
+      'drive_read_bytes_per_second',
+      'Bytes read per second from the block device of a drive.',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.io?.readBytes })),
+    );
+    appendGauge(
+      lines,
+      'drive_write_bytes_per_second',
+      'Bytes written per second to the block device of a drive.',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.io?.writeBytes })),
+    );
+    appendGauge(
+      lines,
+      'drive_read_operations_per_second',
+      'Read operations per second on the block device of a drive.',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.io?.readOps })),
+    );
+    appendGauge(
+      lines,
+      'drive_write_operations_per_second',
+      'Write operations per second on the block device of a drive.',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.io?.writeOps })),
+    );
+    appendGauge(
+      lines,
+      'drive_busy_ratio',
+      'Share of time the block device of a drive has been busy (0.0-1.0).',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.io?.busy })),
+    );
+    appendGauge(
+      lines,
+      'drive_queue_depth',
+      'Average number of queued I/O requests of the block device of a drive.',
+      drives.map((drive) => ({ labels: labels(drive), value: drive.io?.queueDepth })),
+    );
+  }
+
+  // network interfaces
+  const nics = snapshot.networkInterfaces;
+  if (nics) {
+    appendGauge(
+      lines,
+      'network_up',
+      'If the operational status of a network interface is up.',
+      nics.map((nic) => ({ labels: { nic: nic.name }, value: nic.status.operational === 'up' })),
+    );
+    appendGauge(
+      lines,
+      'network_speed_bytes',
+      'Maximum link speed of a network interface in bytes per second.',
+      nics.map((nic) => ({ labels: { nic: nic.name }, value: nic.speed?.bytes })),
+    );
+    appendGauge(
+      lines,
+      'network_receive_utilization_ratio',
+      'Receive link utilization of a network interface (0.0-1.0).',
+      nics.map((nic) => ({ labels: { nic: nic.name }, value: nic.utilization?.receive })),
+    );
+    appendGauge(
+      lines,
+      'network_transmit_utilization_ratio',
+      'Transmit link utilization of a network interface (0.0-1.0).',
+      nics.map((nic) => ({ labels: { nic: nic.name }, value: nic.utilization?.transmit })),
+    );
+    appendGauge(
+      lines,
+      'network_receive_bytes_per_second',
+      'Bytes received per second by a network interface.',
+      nics.map((nic) => ({ labels: { nic: nic.name }, value: nic.throughput?.receiveBytes })),
+    );
+    appendGauge(
+      lines,
+      'network_transmit_bytes_per_second',
+      'Bytes transmitted per second by a network interface.',
+      nics.map((nic) => ({ labels: { nic: nic.name }, value: nic.throughput?.transmitBytes })),
+    );
+    const counters: [string, string, (stats: NICStatistics) => number | undefined][] = [
+      ['receive_bytes', 'Total bytes received', (stats) => stats.receivedBytes],
+      ['transmit_bytes', 'Total bytes transmitted', (stats) => stats.transmittedBytes],
+      ['receive_packets', 'Total packets received', (stats) => stats.receivedPackets],
+      ['transmit_packets', 'Total packets transmitted', (stats) => stats.transmittedPackets],
+      ['receive_errors', 'Total receive errors', (stats) => stats.receiveErrors],
+      ['transmit_errors', 'Total transmit errors', (stats) => stats.transmitErrors],
+      ['receive_drops', 'Total received packets dropped', (stats) => stats.receiveDrops],
+      ['transmit_drops', 'Total packets dropped before transmission', (stats) => stats.transmitDrops],
+      ['collisions', 'Total collisions', (stats) => stats.collisions],
+    ];
+    for (const [name, help, value] of counters)
+      appendCounter(
+        lines,
+        'network_' + name + '_total',
+        help + ' of a network interface.',
+        nics.map((nic) => ({ labels: { nic: nic.name }, value: nic.statistics ? value(nic.statistics) : undefined })),
+      );
+  }
+
+  // gpus
+  const gpus = snapshot.gpus;
+  if (gpus) {
+    const labels = (gpu: GPU, i: number) => ({ gpu: gpu.index ?? i, name: gpu.name });
+    appendGauge(
+      lines,
+      'gpu_memory_size_bytes',
+      'Memory size of a GPU in bytes.',
+      gpus.map((gpu, i) => ({ labels: labels(gpu, i), value: gpu.memory })),
+    );
+    appendGauge(
+      lines,
+      'gpu_utilization_ratio',
+      'Processing utilization of a GPU (0.0-1.0).',
+      gpus.map((gpu, i) => ({ labels: labels(gpu, i), value: gpu.utilization?.processing })),
+    );
+    appendGauge(
+      lines,
+      'gpu_memory_utilization_ratio',
+      'Memory utilization of a GPU (0.0-1.0).',
+      gpus.map((gpu, i) => ({ labels: labels(gpu, i), value: gpu.utilization?.memory })),
+    );
+    appendGauge(
+      lines,
+      'gpu_temperature_celsius',
+      'Temperature of a GPU in degrees Celsius.',
+      gpus.map((gpu, i) => ({ labels: labels(gpu, i), value: gpu.utilization?.temperature })),
+    );
+    appendGauge(
+      lines,
+      'gpu_memory_temperature_celsius',
+      'Memory temperature of a GPU in degrees Celsius.',
+      gpus.map((gpu, i) => ({ labels: labels(gpu, i), value: gpu.utilization?.memoryTemperature })),
+    );
+    appendGauge(
+      lines,
+      'gpu_power_draw_watts',
+      'Power draw of a GPU in watts.',
+      gpus.map((gpu, i) => ({ labels: labels(gpu, i), value: gpu.utilization?.powerDraw })),
+    );
+    appendGauge(
+      lines,
+      'gpu_fan_speed_ratio',
+      'Fan speed of a GPU (0.0-1.0).',
+      gpus.map((gpu, i) => ({ labels: labels(gpu, i), value: gpu.utilization?.fanSpeed })),
+    );
+  }
+
+  // temperatures
+  const temperatures = snapshot.temperatures;
+  if (temperatures) {
+    appendGauge(lines, 'temperature_celsius', 'Overall temperature of a component in degrees Celsius.', [
+      { labels: { sensor: 'battery' }, value: temperatures.battery },
+      { labels: { sensor: 'cpu' }, value: temperatures.cpu },
+      { labels: { sensor: 'gpu' }, value: temperatures.gpu },
+      { labels: { sensor: 'gpu_memory' }, value: temperatures.gpuMemory },
+      { labels: { sensor: 'motherboard' }, value: temperatures.motherboard },
+      { labels: { sensor: 'wifi' }, value: temperatures.wifi },
+    ]);
+    appendGauge(
+      lines,
+      'cpu_core_temperature_celsius',
+      'Temperature of a CPU core in degrees Celsius.',
+      (temperatures.cpuCores || []).map((value, core) => ({ labels: { core }, value })),
+    );
+    appendGauge(
+      lines,
+      'cpu_socket_temperature_celsius',
+      'Temperature of a CPU socket in degrees Celsius.',
+      (temperatures.cpuSockets || []).map((value, socket) => ({ labels: { socket }, value })),
+    );
+    appendGauge(
+      lines,
+      'drive_temperature_celsius',
+      'Temperature of a drive in degrees Celsius.',
+      (temperatures.drives || []).map((value, drive) => ({ labels: { drive }, value })),
+    );
+  }
+
+  // errors
+  appendGauge(
+    lines,
+    'snapshot_error',
+    'If a section of the system snapshot could not be gathered.',
+    Object.keys(snapshot.errors).map((section) => ({ labels: { section }, value: 1 })),
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Creates an HTTP server that serves the system metrics in the Prometheus text exposition format.
+ * The background computations of CPU, drive and network utilization that have been started by the server
+ * are stopped when the server is closed.
+ *
+ * @param options Options of the server.
+ * @returns HTTP server that is listening on the given port.
+ */
+export async function createMetricsServer(options: MetricsServerOptions): Promise<http.Server> {
+  const path = options.path ?? '/metrics';
+  const started = new Set<(typeof METRICS_SERVER_COMPUTATIONS)[number]>();
+  let closed = false;
+  const server = http.createServer(async (req, res) => {
+    if (req.method !== 'GET' || (req.url || '').split('?')[0] !== path) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Not Found\n');
+      return;
+    }
+    try {
+      const idle = METRICS_SERVER_COMPUTATIONS.filter((computation) => !computation.isRunning());
+      const snapshot = await getSystemSnapshot(options.sections);
+      for (const computation of idle) {
+        if (!computation.isRunning()) continue;
+        if (closed) computation.stop();
+        else started.add(computation);
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(toPrometheus(snapshot));
+    } catch (err) {
+      res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end((err instanceof Error ? err.message : String(err)) + '\n');
+    }
+  });
+  server.on('close', () => {
+    closed = true;
+    for (const computation of started) computation.stop();
+    started.clear();
+  });
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
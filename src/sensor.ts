@@ -0,0 +1,163 @@
+import fs from 'fs/promises';
+
+const HWMON_ROOT = '/sys/class/hwmon';
+
+export type SensorType = 'temperature' | 'fan' | 'voltage' | 'current' | 'power' | 'energy';
+
+export type SensorReading = {
+  /** Type of the measured quantity. */
+  type: SensorType;
+
+  /** Name of the chip (driver) providing the sensor (e.g., coretemp, k10temp, nct6798, amdgpu). */
+  chip: string;
+
+  /** Name of the hwmon device of the chip (e.g., hwmon3). Not stable across reboots. */
+  device: string;
+
+  /** Channel of the sensor on the chip (e.g., temp1, fan2, in0). */
+  channel: string;
+
+  /** Label of the sensor if provided by the driver (e.g., Core 0, Package id 0, CPU Fan, Vcore). */
+  label?: string;
+
+  /**
+   * Value of the sensor in the unit of its type:
+   * degrees Celsius (°C) for temperature, revolutions per minute (RPM) for fan,
+   * volts (V) for voltage, amperes (A) for current, watts (W) for power and joules (J) for energy.
+   */
+  value: number;
+
+  /** Lower warning threshold in the unit of the value. */
+  min?: number;
+
+  /** Upper warning threshold in the unit of the value. */
+  max?: number;
+
+  /** Upper critical threshold in the unit of the value. */
+  critical?: number;
+
+  /** Lower critical threshold in the unit of the value. */
+  lowCritical?: number;
+
+  /** If the chip currently signals an alarm for the sensor (e.g. threshold exceeded), undefined if not supported. */
+  alarm?: boolean;
+};
+
+/** Sensor types and the divisors to convert raw hwmon values to base units by hwmon channel prefix. */
+const HWMON_CHANNEL_TYPES: { [prefix: string]: { type: SensorType; divisor: number } } = {
+  temp: { type: 'temperature', divisor: 1000 }, // millidegrees Celsius
+  fan: { type: 'fan', divisor: 1 }, // RPM
+  in: { type: 'voltage', divisor: 1000 }, // millivolts
+  curr: { type: 'current', divisor: 1000 }, // milliamperes
+  power: { type: 'power', divisor: 1e6 }, // microwatts
+  energy: { type: 'energy', divisor: 1e6 }, // microjoules
+};
+
+const HWMON_CHANNEL_REGEX = /^(temp|fan|in|curr|power|energy)(\d+)_(\w+)$/;
+
+/**
+ * Reads all channels of a hwmon device.
+ *
+ * @param device Name of the hwmon device (e.g., hwmon0).
+ * @param types Sensor types to read.
+ * @returns Readings of the device ordered by type and channel number.
+ */
+async function readHwmonDevice(device: string, types: Set<SensorType>): Promise<SensorReading[]> {
+  const dir = HWMON_ROOT + '/' + device + '/';
+  const [chip, files] = await Promise.all([
+    fs
+      .readFile(dir + 'name', 'utf8')
+      .then((name) => name.trim())
+      .catch(() => device),
+    fs.readdir(dir).catch(() => [] as string[]),
+  ]);
+
+  // group attribute files by channel (e.g. temp1_input, temp1_label, temp1_crit)
+  const channels: { [channel: string]: { prefix: string; index: number; attributes: Set<string> } } = {};
+  for (const file of files) {
+    const match = file.match(HWMON_CHANNEL_REGEX);
+    if (!match || !types.has(HWMON_CHANNEL_TYPES[match[1]].type)) continue;
+    const channel = match[1] + match[2];
+    channels[channel] = channels[channel] || { prefix: match[1], index: parseInt(match[2], 10), attributes: new Set() };
+    channels[channel].attributes.add(match[3]);
+  }
+
+  const readings = await Promise.all(
+    Object.entries(channels).map(async ([channel, { prefix, attributes }]): Promise<SensorReading | null> => {
+      const read = (attribute: string) =>
+        attributes.has(attribute)
+          ? fs
+              .readFile(dir + channel + '_' + attribute, 'utf8')
+              .then((data) => data.trim())
+              .catch(() => undefined)
+          : Promise.resolve(undefined);
+      const { type, divisor } = HWMON_CHANNEL_TYPES[prefix];
+      const toValue = (raw: string | undefined) => {
+        const num = parseInt(raw ?? '', 10);
+        return !Number.isNaN(num) ? num / divisor : undefined;
+      };
+
+      // energy channels only have an input, power channels of some drivers (e.g. amdgpu) only an average
+      const [input, average, label, min, max, crit, lcrit, enable, fault, ...alarms] = await Promise.all([
+        read('input'),
+        read('average'),
+        read('label'),
+        read('min'),
+        read('max'),
+        read('crit'),
+        read('lcrit'),
+        read('enable'),
+        read('fault'),
+        read('alarm'),
+        read('min_alarm'),
+        read('max_alarm'),
+        read('crit_alarm'),
+        read('lcrit_alarm'),
+      ]);
+      const value = toValue(input) ?? toValue(average);
+      if (value === undefined || enable === '0' || fault === '1') return null;
+
+      const reading: SensorReading = { type, chip, device, channel, value };
+      if (label) reading.label = label;
+      const minValue = toValue(min);
+      if (minValue !== undefined) reading.min = minValue;
+      const maxValue = toValue(max);
+      if (maxValue !== undefined) reading.max = maxValue;
+      const critValue = toValue(crit);
+      if (critValue !== undefined) reading.critical = critValue;
+      const lcritValue = toValue(lcrit);
+      if (lcritValue !== undefined) reading.lowCritical = lcritValue;
+      const alarmValues = alarms.filter((alarm) => alarm !== undefined);
+      if (alarmValues.length > 0) reading.alarm = alarmValues.some((alarm) => alarm !== '0');
+      return reading;
+    }),
+  );
+
+  const prefixes = Object.keys(HWMON_CHANNEL_TYPES);
+  return readings
+    .filter((reading): reading is SensorReading => reading !== null)
+    .sort((a, b) => {
+      const channelA = channels[a.channel];
+      const channelB = channels[b.channel];
+      return prefixes.indexOf(channelA.prefix) - prefixes.indexOf(channelB.prefix) || channelA.index - channelB.index;
+    });
+}
+
+/**
+ * Returns the readings of all hardware monitoring sensors (temperatures, fans, voltages, currents, power and energy).
+ * Currently only supported on Linux (hwmon), other platforms return an empty array.
+ *
+ * @param types Sensor types to read (default all types).
+ * @returns Sensor readings ordered by device, type and channel.
+ */
+export async function getSensors(
+  types: SensorType[] = ['temperature', 'fan', 'voltage', 'current', 'power', 'energy'],
+): Promise<SensorReading[]> {
+  if (process.platform !== 'linux') return [];
+  const devices = await fs.readdir(HWMON_ROOT).catch(() => [] as string[]);
+  const deviceIndex = (device: string) => parseInt(device.replace(/^\D+/, ''), 10) || 0;
+  devices.sort((a, b) => deviceIndex(a) - deviceIndex(b));
+  const typeSet = new Set(types);
+  const readings = await Promise.all(devices.map((device) => readHwmonDevice(device, typeSet)));
+  return readings.flat();
+}
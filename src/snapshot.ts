@@ -0,0 +1,91 @@
+import { CPU, getCpuInfo } from './cpu';
+import { DriveInfo, getDrives } from './drive';
+import { getGPUs, GPU } from './gpu';
+import { getMemoryInfo, Memory } from './memory';
+import { getNetworkInterfaces, NICInfo } from './net';
+import { getOSInfo, OSInfo } from './os';
+import { getTemperatures, Temperatures } from './temperature';
+
+export type SystemSnapshotSection = 'cpu' | 'memory' | 'drives' | 'gpus' | 'networkInterfaces' | 'os' | 'temperatures';
+
+/** All sections that can be part of a system snapshot. */
+export const SYSTEM_SNAPSHOT_SECTIONS: SystemSnapshotSection[] = [
+  'cpu',
+  'memory',
+  'drives',
+  'gpus',
+  'networkInterfaces',
+  'os',
+  'temperatures',
+];
+
+export type SystemSnapshot = {
+  /** Unix timestamp in milliseconds at which the snapshot has been started. */
+  timestamp: number;
+
+  /** Information about the CPU. */
+  cpu?: CPU;
+
+  /** Information about the memory (RAM). */
+  memory?: Memory;
+
+  /** Information about the drives. */
+  drives?: DriveInfo[];
+
+  /** Information about the GPUs. */
+  gpus?: GPU[];
+
+  /** Information about the network interfaces. */
+  networkInterfaces?: NICInfo[];
+
+  /** Information about the operating system. */
+  os?: OSInfo;
+
+  /** Temperatures of the system components. */
+  temperatures?: Temperatures;
+
+  /** Error messages of the sections that could not be gathered. */
+  errors: { [section in SystemSnapshotSection]?: string };
+};
+
+/**
+ * Gathers information about the whole system concurrently in a single call.
+ * Probes shared between sections (e.g. nvidia-smi for GPUs and temperatures) are only executed once.
+ * If a section fails, its error message is recorded in the errors field and the remaining sections are still returned.
+ *
+ * @param sections Sections to include in the snapshot (default all sections).
+ * @returns Snapshot of the system that can be serialized to JSON.
+ */
+export async function getSystemSnapshot(
+  sections: SystemSnapshotSection[] = SYSTEM_SNAPSHOT_SECTIONS,
+): Promise<SystemSnapshot> {
+  const snapshot: SystemSnapshot = { timestamp: Date.now(), errors: {} };
+  const include = new Set(sections);
+
+  // shared probes
+  const gpus = include.has('gpus') || include.has('temperatures') ? getGPUs() : undefined;
+  gpus?.catch(() => undefined); // errors are recorded by the sections awaiting the probe
+
+  async function collect<K extends SystemSnapshotSection>(
+    section: K,
+    probe: () => Promise<SystemSnapshot[K]>,
+  ): Promise<void> {
+    if (!include.has(section)) return;
+    try {
+      snapshot[section] = await probe();
+    } catch (err) {
+      snapshot.errors[section] = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  await Promise.all([
+    collect('cpu', getCpuInfo),
+    collect('memory', getMemoryInfo),
+    collect('drives', () => getDrives(false, true)),
+    collect('gpus', () => gpus as Promise<GPU[]>),
+    collect('networkInterfaces', getNetworkInterfaces),
+    collect('os', () => getOSInfo(true)),
+    collect('temperatures', () => getTemperatures(gpus)),
+  ]);
+  return snapshot;
+}
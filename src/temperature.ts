@@ -1,4 +1,6 @@
 import fs from 'fs/promises';
+import { getSampledGPUUtilization, GPU } from './gpu';
+import { getSensors } from './sensor';
 import { execCommand } from './utils';
 
 export type Temperatures = {
@@ -38,6 +40,12 @@ export type Temperatures = {
    */
   gpuMemories?: number[];
 
+  /**
+   * Temperature of each drive in degrees Celsius (°C).
+   * If present contains at least one value.
+   */
+  drives?: number[];
+
   /** Temperature of the motherboard in degrees Celsius (°C). */
   motherboard?: number;
 
@@ -45,141 +53,406 @@ export type Temperatures = {
   wifi?: number;
 };
 
-export async function getTemperatures(): Promise<Temperatures> {
-  const temperatures: Temperatures = {};
+export type TemperatureCategory =
+  | 'cpu'
+  | 'cpuCore'
+  | 'cpuSocket'
+  | 'gpu'
+  | 'gpuMemory'
+  | 'drive'
+  | 'motherboard'
+  | 'wifi'
+  | 'battery'
+  | 'other';
+
+export type TemperatureSensor = {
+  /** Interface the reading has been obtained from. */
+  source: 'thermal_zone' | 'hwmon' | 'wmi' | 'librehardwaremonitor' | 'openhardwaremonitor' | 'nvidia-smi';
+
+  /**
+   * Identifier of the sensor within its source
+   * (e.g., thermal_zone0, coretemp/temp2, coretemp.1/temp2, /intelcpu/0/temperature/1, nvidia-smi/0).
+   */
+  id: string;
+
+  /** Name of the chip (driver) providing the sensor if read from hwmon (e.g., coretemp, k10temp, nvme). */
+  chip?: string;
+
+  /** Channel of the sensor on the chip if read from hwmon (e.g., temp2). */
+  channel?: string;
+
+  /** Label or type of the sensor as reported by the source (e.g., Core 0, Package id 0, x86_pkg_temp). */
+  label?: string;
+
+  /** Temperature in degrees Celsius (°C). */
+  value: number;
+
+  /** Temperature in degrees Celsius (°C) above which the component is considered hot. */
+  high?: number;
+
+  /** Temperature in degrees Celsius (°C) at which the component shuts down or throttles hard. */
+  critical?: number;
+
+  /** Category of Temperatures the reading is mapped to ('other' if it could not be mapped). */
+  category: TemperatureCategory;
+};
+
+/** Order of the sources in the list of temperature sensors. */
+const TEMPERATURE_SOURCES: TemperatureSensor['source'][] = [
+  'hwmon',
+  'thermal_zone',
+  'librehardwaremonitor',
+  'openhardwaremonitor',
+  'wmi',
+  'nvidia-smi',
+];
+
+/**
+ * Maps the type of a thermal zone (e.g., x86_pkg_temp, acpitz, iwlwifi_1) to a category.
+ */
+function categorizeThermalZone(type: string): TemperatureCategory {
+  if (type.includes('core')) return 'cpuCore';
+  if (type.includes('x86') || type.includes('soc_thermal')) return 'cpuSocket';
+  if (type.startsWith('acp') || type.startsWith('pch')) return 'motherboard';
+  if (type.includes('gpu') || type.includes('graphics')) return 'gpu';
+  if (type.includes('wifi')) return 'wifi';
+  if (type.includes('battery')) return 'battery';
+  return 'other';
+}
+
+/**
+ * Maps the label (or chip name if unlabelled) of a hwmon temperature channel to a category.
+ */
+function categorizeHwmonSensor(chip: string, name: string): TemperatureCategory {
+  if (chip === 'nvme' || chip === 'drivetemp') return 'drive';
+  if (name.includes('core')) return 'cpuCore';
+  if (name.includes('socket') || name.includes('package')) return 'cpuSocket';
+  if (name.includes('gpu') || name.includes('graphics')) return 'gpu';
+  if (name.includes('motherboard') || name.includes('mainboard') || name.includes('mb')) return 'motherboard';
+  if (name.includes('wifi')) return 'wifi';
+  if (name.includes('battery')) return 'battery';
+  return 'other';
+}
+
+/**
+ * Maps a temperature sensor of LibreHardwareMonitor/OpenHardwareMonitor to a category.
+ *
+ * @param identifier Identifier of the sensor (e.g., /intelcpu/0/temperature/1, /lpc/nct6798d/temperature/0).
+ * @param name Name of the sensor (e.g., CPU Core #1, CPU Package, GPU Core).
+ */
+function categorizeHardwareMonitorSensor(identifier: string, name: string): TemperatureCategory {
+  const hardware = (identifier.split('/')[1] || '').toLowerCase();
+  const lowerName = name.toLowerCase();
+  if (hardware.includes('cpu')) {
+    // derived values (e.g. "Core Max", "CPU Core #1 Distance to TjMax") and chiplet dies are no real core readings
+    if (/distance|max|average|^ccd/.test(lowerName)) return 'other';
+    if (/core #\d+/.test(lowerName)) return 'cpuCore';
+    if (/package|tctl|tdie/.test(lowerName)) return 'cpuSocket';
+    return 'other';
+  }
+  if (hardware.includes('gpu')) {
+    if (lowerName.includes('memory')) return 'gpuMemory';
+    if (lowerName === 'gpu core') return 'gpu';
+    return 'other';
+  }
+  if (['hdd', 'ssd', 'nvme', 'storage'].includes(hardware)) return 'drive';
+  if (['lpc', 'superio', 'motherboard', 'mainboard'].includes(hardware)) return 'motherboard';
+  return 'other';
+}
+
+/**
+ * Parses the temperature sensors of LibreHardwareMonitor/OpenHardwareMonitor as returned by
+ * `Get-CimInstance -Namespace root/LibreHardwareMonitor -ClassName Sensor | ConvertTo-Json`.
+ *
+ * @param output JSON output with objects containing Identifier, Name, SensorType and Value.
+ * @param source Hardware monitor the output originates from.
+ * @returns Temperature sensors ordered by hardware and sensor index.
+ */
+export function parseHardwareMonitorSensors(
+  output: string,
+  source: 'librehardwaremonitor' | 'openhardwaremonitor',
+): TemperatureSensor[] {
+  let json: any[] = [];
+  try {
+    const parsed = JSON.parse(output);
+    json = Array.isArray(parsed) ? parsed : parsed ? [parsed] : []; // single objects are not wrapped in an array
+    // tslint:disable-next-line:no-empty
+  } catch {}
+
+  const sensors: TemperatureSensor[] = [];
+  for (const entry of json) {
+    if (!entry || (entry.SensorType !== undefined && entry.SensorType !== 'Temperature')) continue;
+    const identifier = String(entry.Identifier ?? '');
+    const name = String(entry.Name ?? '').trim();
+    const value = typeof entry.Value === 'number' ? entry.Value : parseFloat(entry.Value);
+    if (!identifier || Number.isNaN(value)) continue;
+    sensors.push({
+      source,
+      id: identifier,
+      label: name,
+      value,
+      category: categorizeHardwareMonitorSensor(identifier, name),
+    });
+  }
+  // identifiers end with the index of the sensor, numeric comparison keeps "CPU Core #10" after "CPU Core #9"
+  return sensors.sort((a, b) => a.id.localeCompare(b.id, 'en', { numeric: true }));
+}
+
+/**
+ * Reads a thermal zone of /sys/class/thermal including its trip points.
+ *
+ * @param zone Name of the thermal zone (e.g., thermal_zone0).
+ * @returns Temperature sensor or null if the zone can not be read.
+ */
+async function readThermalZone(zone: string): Promise<TemperatureSensor | null> {
+  const dir = '/sys/class/thermal/' + zone + '/';
+  const read = (file: string) =>
+    fs
+      .readFile(dir + file, 'utf8')
+      .then((data) => data.trim())
+      .catch(() => '');
+  const [tempStr, type, files] = await Promise.all([
+    read('temp'),
+    read('type'),
+    fs.readdir(dir).catch(() => [] as string[]),
+  ]);
+  const temp = parseInt(tempStr, 10);
+  if (Number.isNaN(temp)) return null;
+
+  const sensor: TemperatureSensor = {
+    source: 'thermal_zone',
+    id: zone,
+    value: temp / 1000, // millidegrees Celsius to degrees Celsius
+    category: categorizeThermalZone(type.toLowerCase()),
+  };
+  if (type) sensor.label = type;
+
+  // trip points are pairs of trip_point_N_type (critical, hot, passive, active) and trip_point_N_temp
+  const tripPoints = await Promise.all(
+    files
+      .filter((file) => /^trip_point_\d+_type$/.test(file))
+      .map(async (file) => {
+        const prefix = file.slice(0, -'type'.length);
+        const [tripType, tripTemp] = await Promise.all([read(file), read(prefix + 'temp')]);
+        return { type: tripType, temp: parseInt(tripTemp, 10) / 1000 };
+      }),
+  );
+  for (const tripType of ['hot', 'passive']) {
+    const tripPoint = tripPoints.find((trip) => trip.type === tripType && trip.temp > 0);
+    if (tripPoint && sensor.high === undefined) sensor.high = tripPoint.temp;
+  }
+  const critical = tripPoints.find((trip) => trip.type === 'critical' && trip.temp > 0);
+  if (critical) sensor.critical = critical.temp;
+  return sensor;
+}
+
+/**
+ * Returns every temperature reading of the system with its source, label, thresholds and the category
+ * it is mapped to in getTemperatures(). Readings are ordered by source and then by device and channel number,
+ * so the same sensor keeps its position across calls (e.g. core N is always core N).
+ *
+ * @param gpus GPUs as returned by getGPUs() whose readings are used instead of querying nvidia-smi again.
+ * @returns Temperature readings in degrees Celsius (°C).
+ */
+export async function getTemperatureSensors(gpus?: GPU[] | Promise<GPU[]>): Promise<TemperatureSensor[]> {
+  const sensors: TemperatureSensor[] = [];
 
   switch (process.platform) {
     case 'linux': {
-      const thermalFiles = await fs.readdir('/sys/class/thermal');
-      const hwmonFiles = await fs.readdir('/sys/class/hwmon');
-      await Promise.allSettled([
-        ...thermalFiles.map(async (file) => {
-          const temp = await fs
-            .readFile(`/sys/class/thermal/${file}/temp`, 'utf8')
-            .then((tempStr) => {
-              const t = parseInt(tempStr, 10);
-              return !Number.isNaN(t) ? t / 1000 : null; // millidegrees Celsius to degrees Celsius
-            })
-            .catch(() => null);
-          if (temp === null) return;
-          const type = (await fs.readFile(`/sys/class/thermal/${file}/type`, 'utf8').catch(() => '')).toLowerCase();
-          if (type.includes('core')) {
-            temperatures.cpuCores = temperatures.cpuCores || [];
-            temperatures.cpuCores.push(temp);
-          } else if (type.includes('x86') || type.includes('soc_thermal')) {
-            temperatures.cpuSockets = temperatures.cpuSockets || [];
-            temperatures.cpuSockets.push(temp);
-          } else if (type.startsWith('acp') || type.startsWith('pch')) {
-            temperatures.motherboard = temp;
-          } else if (type.includes('gpu') || type.includes('graphics')) {
-            temperatures.gpus = temperatures.gpus || [];
-            temperatures.gpus.push(temp);
-          } else if (type.includes('wifi')) {
-            temperatures.wifi = temp;
-          } else if (type.includes('battery')) {
-            temperatures.battery = temp;
-          }
-        }),
-        ...hwmonFiles.map(async (file) => {
-          const subFiles = await fs.readdir('/sys/class/hwmon/' + file);
-          let defaultName: string | null = null;
-          const names: { [key: string]: string } = {};
-          const temps: { [key: string]: number } = {};
-
-          await Promise.allSettled(
-            subFiles.map(async (subFile) => {
-              if (subFile === 'name')
-                defaultName = await fs.readFile('/sys/class/hwmon/' + file + '/' + subFile, 'utf8').catch(() => null);
-              if (subFile.endsWith('_label')) {
-                const key = subFile.slice(0, -6);
-                names[key] = await fs.readFile('/sys/class/hwmon/' + file + '/' + subFile, 'utf8').catch(() => '');
-              }
-              if (subFile.endsWith('_input')) {
-                const key = subFile.slice(0, -6);
-                const temp = await fs
-                  .readFile('/sys/class/hwmon/' + file + '/' + subFile, 'utf8')
-                  .then((tempStr) => {
-                    const t = parseInt(tempStr, 10);
-                    return !Number.isNaN(t) ? t / 1000 : null; // millidegrees Celsius to degrees Celsius
-                  })
-                  .catch(() => null);
-                if (temp !== null) temps[key] = temp;
-              }
-            }),
-          );
-
-          for (const [key, temp] of Object.entries(temps)) {
-            const name = (names[key] || defaultName || '').toLowerCase();
-            if (name.includes('core')) {
-              temperatures.cpuCores = temperatures.cpuCores || [];
-              temperatures.cpuCores.push(temp);
-            } else if (name.includes('socket') || name.includes('package')) {
-              temperatures.cpuSockets = temperatures.cpuSockets || [];
-              temperatures.cpuSockets.push(temp);
-            } else if (name.includes('gpu') || name.includes('graphics')) {
-              temperatures.gpus = temperatures.gpus || [];
-              temperatures.gpus.push(temp);
-            } else if (name.includes('motherboard') || name.includes('mainboard') || name.includes('mb')) {
-              temperatures.motherboard = temp;
-            } else if (name.includes('wifi')) {
-              temperatures.wifi = temp;
-            } else if (name.includes('battery')) {
-              temperatures.battery = temp;
-            }
-          }
-        }),
+      const thermalZones = await fs.readdir('/sys/class/thermal').catch(() => [] as string[]);
+      const zoneIndex = (zone: string) => parseInt(zone.replace(/^\D+/, ''), 10) || 0;
+      const [zones, hwmonSensors] = await Promise.all([
+        Promise.all(
+          thermalZones
+            .filter((zone) => zone.startsWith('thermal_zone'))
+            .sort((a, b) => zoneIndex(a) - zoneIndex(b))
+            .map(readThermalZone),
+        ),
+        getSensors(['temperature']),
       ]);
+      // chips present on multiple devices (e.g. coretemp of multiple sockets) are numbered in device order
+      const chipDevices: { [chip: string]: string[] } = {};
+      for (const sensor of hwmonSensors) {
+        const devices = (chipDevices[sensor.chip] = chipDevices[sensor.chip] || []);
+        if (!devices.includes(sensor.device)) devices.push(sensor.device);
+        const chipIndex = devices.indexOf(sensor.device);
+        const reading: TemperatureSensor = {
+          source: 'hwmon',
+          id: sensor.chip + (chipIndex > 0 ? '.' + chipIndex : '') + '/' + sensor.channel,
+          chip: sensor.chip,
+          channel: sensor.channel,
+          value: sensor.value,
+          category: categorizeHwmonSensor(sensor.chip, (sensor.label || sensor.chip).toLowerCase()),
+        };
+        if (sensor.label) reading.label = sensor.label;
+        if (sensor.max !== undefined) reading.high = sensor.max;
+        if (sensor.critical !== undefined) reading.critical = sensor.critical;
+        sensors.push(reading);
+      }
+      for (const zone of zones) if (zone) sensors.push(zone);
       break;
     }
 
     case 'win32': {
-      const output = await execCommand(
-        'powershell -Command "Get-CimInstance MSAcpi_ThermalZoneTemperature -Namespace "root/wmi" | Select CurrentTemperature | Format-List"',
-      ).catch(() => ''); // only successful if administrator rights are available
-      const lines = output.split('\n');
-      // tslint:disable-next-line:prefer-for-of
-      for (let i = 0; i < lines.length; i++) {
-        const [key, value] = lines[i].split(' : ').map((s) => s.trim());
-        if (key === 'CurrentTemperature') {
-          const temperature = parseInt(value, 10);
-          if (!Number.isNaN(temperature)) {
-            temperatures.cpu = (temperature - 2732) / 10; // Convert from Kelvin to Celsius
-          }
+      // LibreHardwareMonitor/OpenHardwareMonitor publish their sensors via WMI while their service is running
+      const query = (namespace: string) =>
+        execCommand(
+          `powershell -Command "Get-CimInstance -Namespace root/${namespace} -ClassName Sensor -ErrorAction SilentlyContinue | Where-Object SensorType -eq 'Temperature' | Select-Object Identifier, Name, SensorType, Value | ConvertTo-Json"`,
+        ).catch(() => '');
+      const [acpiOutput, libreOutput, openOutput] = await Promise.all([
+        execCommand(
+          'powershell -Command "Get-CimInstance MSAcpi_ThermalZoneTemperature -Namespace "root/wmi" | Select InstanceName, CurrentTemperature, CriticalTripPoint | Format-List"',
+        ).catch(() => ''), // only successful if administrator rights are available
+        query('LibreHardwareMonitor'),
+        query('OpenHardwareMonitor'),
+      ]);
+
+      // both monitors report the same hardware, so the readings of OpenHardwareMonitor are only used as fallback
+      let hardwareMonitorSensors = parseHardwareMonitorSensors(libreOutput, 'librehardwaremonitor');
+      if (hardwareMonitorSensors.length === 0)
+        hardwareMonitorSensors = parseHardwareMonitorSensors(openOutput, 'openhardwaremonitor');
+      sensors.push(...hardwareMonitorSensors);
+
+      // ACPI thermal zones usually cover the motherboard, they are only used as CPU temperature if nothing better exists
+      const acpiCategory: TemperatureCategory = hardwareMonitorSensors.some(
+        (sensor) => sensor.category === 'cpuSocket' || sensor.category === 'cpuCore',
+      )
+        ? 'motherboard'
+        : 'cpu';
+      let current: Partial<TemperatureSensor> = {};
+      const flush = () => {
+        if (current.value !== undefined && current.id)
+          sensors.push({ ...current, source: 'wmi', category: acpiCategory } as TemperatureSensor);
+        current = {};
+      };
+      for (const line of acpiOutput.split('\n')) {
+        const [key, value] = line.split(' : ').map((s) => s.trim());
+        if (!key) {
+          flush();
+          continue;
+        }
+        // temperatures are reported in tenths of Kelvin
+        const temperature = (parseInt(value, 10) - 2732) / 10;
+        if (key === 'InstanceName') {
+          current.id = 'MSAcpi_ThermalZoneTemperature/' + value;
+          current.label = value;
+        } else if (key === 'CurrentTemperature' && !Number.isNaN(temperature)) {
+          current.value = temperature;
+        } else if (key === 'CriticalTripPoint' && !Number.isNaN(temperature) && temperature > 0) {
+          current.critical = temperature;
         }
       }
+      flush();
       break;
     }
   }
 
-  // backup nvidia-smi
+  // nvidia-smi (reuses the readings of the given GPUs or of the GPU sampling instead of querying nvidia-smi again)
   {
-    const output = await execCommand(
-      'nvidia-smi --query-gpu=temperature.gpu,temperature.memory --format=csv,nounits,noheader',
-    ).catch(() => '');
-    const lines = output.split('\n');
-    let clearedGPUTemp = false;
-    let clearedGPUMemoryTemp = false;
-    // tslint:disable-next-line:prefer-for-of
-    for (let i = 0; i < lines.length; i++) {
-      const [tempGPU, tempMemory] = lines[i].split(',').map((s) => s.trim());
-      const gpuTemp = parseInt(tempGPU, 10);
-      const memoryTemp = parseInt(tempMemory, 10);
-      if (!Number.isNaN(gpuTemp)) {
-        if (!clearedGPUTemp) {
-          temperatures.gpus = [];
-          clearedGPUTemp = true;
-        }
+    const knownGPUs = gpus ? await Promise.resolve(gpus).catch(() => null) : null;
+    const sampled = knownGPUs ? null : getSampledGPUUtilization();
+    let readings: [number, number, number][]; // index, GPU and memory temperature
+    if (knownGPUs) {
+      readings = knownGPUs.map((gpu, i) => [
+        gpu.index ?? i,
+        gpu.utilization?.temperature ?? NaN,
+        gpu.utilization?.memoryTemperature ?? NaN,
+      ]);
+    } else if (sampled) {
+      readings = sampled.map((sample) => [
+        sample.index,
+        sample.utilization.temperature ?? NaN,
+        sample.utilization.memoryTemperature ?? NaN,
+      ]);
+    } else {
+      const output = await execCommand(
+        'nvidia-smi --query-gpu=index,temperature.gpu,temperature.memory --format=csv,nounits,noheader',
+      ).catch(() => '');
+      readings = output
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line, i) => {
+          const [index, tempGPU, tempMemory] = line.split(',').map((s) => s.trim());
+          return [parseInt(index, 10) || i, parseInt(tempGPU, 10), parseInt(tempMemory, 10)];
+        });
+    }
+    readings.forEach(([index, gpuTemp, memoryTemp]) => {
+      if (!Number.isNaN(gpuTemp))
+        sensors.push({
+          source: 'nvidia-smi',
+          id: 'nvidia-smi/' + index,
+          label: 'GPU ' + index,
+          value: gpuTemp,
+          category: 'gpu',
+        });
+      if (!Number.isNaN(memoryTemp))
+        sensors.push({
+          source: 'nvidia-smi',
+          id: 'nvidia-smi/' + index + '/memory',
+          label: 'GPU ' + index + ' Memory',
+          value: memoryTemp,
+          category: 'gpuMemory',
+        });
+    });
+  }
+
+  // sort is stable so the order within a source is kept
+  return sensors.sort((a, b) => TEMPERATURE_SOURCES.indexOf(a.source) - TEMPERATURE_SOURCES.indexOf(b.source));
+}
+
+/**
+ * Returns the temperatures of the system components.
+ *
+ * @param gpus GPUs as returned by getGPUs() whose readings are used instead of querying nvidia-smi again.
+ * @returns Temperatures in degrees Celsius (°C).
+ */
+export async function getTemperatures(gpus?: GPU[] | Promise<GPU[]>): Promise<Temperatures> {
+  const temperatures: Temperatures = {};
+  const sensors = await getTemperatureSensors(gpus);
+
+  // GPU readings of nvidia-smi replace the ones of the other sources
+  const hasNvidiaGPU = sensors.some((sensor) => sensor.source === 'nvidia-smi' && sensor.category === 'gpu');
+  const hasNvidiaGPUMemory = sensors.some(
+    (sensor) => sensor.source === 'nvidia-smi' && sensor.category === 'gpuMemory',
+  );
+
+  for (const sensor of sensors) {
+    const temp = sensor.value;
+    switch (sensor.category) {
+      case 'cpu':
+        if (temperatures.cpu === undefined) temperatures.cpu = temp;
+        break;
+      case 'cpuCore':
+        temperatures.cpuCores = temperatures.cpuCores || [];
+        temperatures.cpuCores.push(temp);
+        break;
+      case 'cpuSocket':
+        temperatures.cpuSockets = temperatures.cpuSockets || [];
+        temperatures.cpuSockets.push(temp);
+        break;
+      case 'gpu':
+        if (hasNvidiaGPU && sensor.source !== 'nvidia-smi') break;
         temperatures.gpus = temperatures.gpus || [];
-        temperatures.gpus.push(gpuTemp);
-      }
-      if (!Number.isNaN(memoryTemp)) {
-        if (!clearedGPUMemoryTemp) {
-          temperatures.gpuMemories = [];
-          clearedGPUMemoryTemp = true;
-        }
+        temperatures.gpus.push(temp);
+        break;
+      case 'gpuMemory':
+        if (hasNvidiaGPUMemory && sensor.source !== 'nvidia-smi') break;
         temperatures.gpuMemories = temperatures.gpuMemories || [];
-        temperatures.gpuMemories.push(memoryTemp);
-      }
+        temperatures.gpuMemories.push(temp);
+        break;
+      case 'drive':
+        temperatures.drives = temperatures.drives || [];
+        temperatures.drives.push(temp);
+        break;
+      case 'motherboard':
+        if (temperatures.motherboard === undefined) temperatures.motherboard = temp;
+        break;
+      case 'wifi':
+        if (temperatures.wifi === undefined) temperatures.wifi = temp;
+        break;
+      case 'battery':
+        if (temperatures.battery === undefined) temperatures.battery = temp;
+        break;
     }
   }
 
@@ -4,9 +4,15 @@ import { exec } from 'child_process';
  * Runs a shell command and returns the output.
  *
  * @param command Command to execute in the shell.
+ * @param ignoreExitCode If the output should also be returned if the command exits with a non-zero exit code (default false).
+ * @param includeStderr If the stderr output should be included in the returned output (default true).
  * @returns Stdout and stderr output of the command.
  */
-export async function execCommand(command: string): Promise<string> {
+export async function execCommand(
+  command: string,
+  ignoreExitCode: boolean = false,
+  includeStderr: boolean = true,
+): Promise<string> {
   return new Promise((resolve, reject) => {
     let output = '';
     const child = exec(command, { windowsHide: true });
@@ -14,10 +20,10 @@ export async function execCommand(command: string): Promise<string> {
       output += data.toString();
     });
     child.stderr?.on('data', (data) => {
-      output += data.toString();
+      if (includeStderr) output += data.toString();
     });
     child.on('close', (code) => {
-      if (code === 0) {
+      if (code === 0 || (ignoreExitCode && code !== null)) {
         resolve(output);
       } else {
         reject(new Error(`Command failed with exit code ${code}: ${output}`));
@@ -85,10 +91,10 @@ export function parseByteValue(value: string): number {
 /**
  * Tries to parse a string as a date.
  *
- * @param dateString String to parse as a date.
+ * @param dateString String to parse as a date (e.g., ISO 8601 or MM/DD/YYYY).
  * @returns Date object if parsing is successful, otherwise null.
  */
-export function parseDate(dateString: string): Date | null {
+export function parseDate(dateString: string | undefined): Date | null {
   if (!dateString) return null;
   dateString = dateString.trim();
   if (dateString.startsWith('/') || dateString.startsWith('\\')) {
@@ -0,0 +1,461 @@
+import fs from 'fs/promises';
+import { execCommand } from './utils';
+
+export type WifiBand = '2.4GHz' | '5GHz' | '6GHz' | '60GHz';
+
+export type WirelessInfo = {
+  /** Name (SSID) of the connected network, undefined if not connected. */
+  ssid?: string;
+
+  /** MAC address of the connected access point (BSSID). */
+  bssid?: string;
+
+  /** Signal strength in dBm (e.g. -56). */
+  signal?: number;
+
+  /** Link quality as a percentage (0.0-1.0). */
+  quality?: number;
+
+  /** Noise level in dBm, if reported by the driver. */
+  noise?: number;
+
+  /** Channel number of the connection (e.g. 36). */
+  channel?: number;
+
+  /** Center frequency of the channel in MHz (e.g. 5180). */
+  frequency?: number;
+
+  /** Frequency band of the channel. */
+  band?: WifiBand;
+
+  /** Current transmit bitrate in bits per second (bps). */
+  transmitBitrate?: number;
+
+  /** Current receive bitrate in bits per second (bps). */
+  receiveBitrate?: number;
+
+  /** Security of the network (e.g. WPA2-Personal, WPA2 WPA3, Open). */
+  security?: string;
+};
+
+export type WifiNetwork = {
+  /** Name (SSID) of the network, empty for hidden networks. */
+  ssid: string;
+
+  /** MAC address of the access point (BSSID). */
+  bssid?: string;
+
+  /** Signal strength in dBm, if reported (otherwise estimated from the quality). */
+  signal?: number;
+
+  /** Signal quality as a percentage (0.0-1.0). */
+  quality?: number;
+
+  /** Channel number of the access point. */
+  channel?: number;
+
+  /** Center frequency of the channel in MHz. */
+  frequency?: number;
+
+  /** Frequency band of the channel. */
+  band?: WifiBand;
+
+  /** Maximum bitrate of the access point in bits per second (bps). */
+  bitrate?: number;
+
+  /** Security of the network (e.g. WPA2-Personal, WPA2 WPA3, Open). */
+  security?: string;
+
+  /** If the network is currently connected. */
+  connected: boolean;
+
+  /** Name of the wireless interface the network has been seen by (e.g. wlan0, Wi-Fi). */
+  interface?: string;
+};
+
+/** Fields of nmcli dev wifi list in the order they are queried. */
+const NMCLI_WIFI_FIELDS = ['IN-USE', 'SSID', 'BSSID', 'CHAN', 'FREQ', 'RATE', 'SIGNAL', 'SECURITY', 'DEVICE'];
+
+/**
+ * Determines the frequency band of a channel frequency.
+ *
+ * @param frequency Center frequency in MHz.
+ * @returns Frequency band or undefined if the frequency is not a Wi-Fi frequency.
+ */
+function frequencyToBand(frequency: number): WifiBand | undefined {
+  if (frequency >= 2400 && frequency < 2500) return '2.4GHz';
+  if (frequency >= 5150 && frequency < 5925) return '5GHz';
+  if (frequency >= 5925 && frequency < 7125) return '6GHz';
+  if (frequency >= 57000 && frequency < 71000) return '60GHz';
+  return undefined;
+}
+
+/**
+ * Converts a channel frequency to the channel number.
+ *
+ * @param frequency Center frequency in MHz.
+ * @returns Channel number or undefined if the frequency is not a Wi-Fi frequency.
+ */
+function frequencyToChannel(frequency: number): number | undefined {
+  if (frequency === 2484) return 14;
+  switch (frequencyToBand(frequency)) {
+    case '2.4GHz':
+      return (frequency - 2407) / 5;
+    case '5GHz':
+      return (frequency - 5000) / 5;
+    case '6GHz':
+      return frequency === 5935 ? 2 : (frequency - 5950) / 5;
+    case '60GHz':
+      return (frequency - 56160) / 2160;
+  }
+  return undefined;
+}
+
+/**
+ * Converts a channel number to the channel frequency.
+ *
+ * @param channel Channel number.
+ * @param band Frequency band of the channel (default 2.4 GHz for channels up to 14, otherwise 5 GHz).
+ * @returns Center frequency in MHz.
+ */
+function channelToFrequency(channel: number, band?: WifiBand): number | undefined {
+  switch (band ?? (channel <= 14 ? '2.4GHz' : '5GHz')) {
+    case '2.4GHz':
+      return channel === 14 ? 2484 : 2407 + channel * 5;
+    case '5GHz':
+      return 5000 + channel * 5;
+    case '6GHz':
+      return channel === 2 ? 5935 : 5950 + channel * 5;
+    case '60GHz':
+      return 56160 + channel * 2160;
+  }
+  return undefined;
+}
+
+/**
+ * Estimates the signal quality from the signal strength (-110 dBm and below is 0.0, -40 dBm and above is 1.0).
+ */
+function signalToQuality(signal: number): number {
+  return Math.min(1, Math.max(0, (signal + 110) / 70));
+}
+
+/**
+ * Estimates the signal strength from the signal quality the same way Windows does (0% is -100 dBm, 100% is -50 dBm).
+ */
+function qualityToSignal(quality: number): number {
+  return Math.round(quality * 50 - 100);
+}
+
+/**
+ * Adds the band, channel and frequency that can be derived from each other.
+ */
+function completeChannel<T extends { channel?: number; frequency?: number; band?: WifiBand }>(info: T): T {
+  if (info.frequency !== undefined) {
+    info.band = info.band ?? frequencyToBand(info.frequency);
+    info.channel = info.channel ?? frequencyToChannel(info.frequency);
+  } else if (info.channel !== undefined) {
+    info.frequency = channelToFrequency(info.channel, info.band);
+    if (info.frequency !== undefined) info.band = info.band ?? frequencyToBand(info.frequency);
+  }
+  return info;
+}
+
+/**
+ * Splits a line of the terse output of nmcli at unescaped colons.
+ */
+function splitNmcliLine(line: string): string[] {
+  const values: string[] = [''];
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\' && i + 1 < line.length) values[values.length - 1] += line[++i];
+    else if (line[i] === ':') values.push('');
+    else values[values.length - 1] += line[i];
+  }
+  return values;
+}
+
+/**
+ * Parses the wireless statistics of Linux.
+ *
+ * @param output Content of /proc/net/wireless.
+ * @returns Link quality, signal and noise level keyed by interface name.
+ */
+export function parseProcNetWireless(output: string): { [nic: string]: WirelessInfo } {
+  const interfaces: { [nic: string]: WirelessInfo } = {};
+  for (const line of output.split('\n')) {
+    // e.g. "wlan0: 0000   54.  -56.  -256        0      0      0      0     36        0"
+    const match = line.match(/^\s*([^\s:]+):\s+\w+\s+(-?[\d.]+)\s+(-?[\d.]+)\s+(-?[\d.]+)/);
+    if (!match) continue;
+    const [link, level, noise] = match.slice(2).map((value) => parseFloat(value));
+    const info: WirelessInfo = { quality: Math.min(1, Math.max(0, link / 70)) }; // link quality ranges from 0 to 70
+    if (level < 0) info.signal = level; // -256 means not available
+    if (noise < 0 && noise > -256) info.noise = noise;
+    interfaces[match[1]] = info;
+  }
+  return interfaces;
+}
+
+/**
+ * Parses the link of a wireless interface on Linux.
+ *
+ * @param output Output of iw dev <interface> link.
+ * @returns Information about the connection or an empty object if not connected.
+ */
+export function parseIwLink(output: string): WirelessInfo {
+  const info: WirelessInfo = {};
+  const connected = output.match(/^Connected to ([0-9a-f:]{17})/im);
+  if (!connected) return info;
+  info.bssid = connected[1].toLowerCase();
+  for (const line of output.split('\n')) {
+    const [key, ...rest] = line.split(':');
+    const value = rest.join(':').trim();
+    switch (key.trim().toLowerCase()) {
+      case 'ssid':
+        if (value) info.ssid = value;
+        break;
+      case 'freq':
+        info.frequency = Math.round(parseFloat(value));
+        break;
+      case 'signal':
+        info.signal = parseFloat(value); // e.g. "-56 dBm"
+        break;
+      case 'rx bitrate':
+        info.receiveBitrate = parseFloat(value) * 1e6; // e.g. "866.7 MBit/s VHT-MCS 9 80MHz short GI VHT-NSS 2"
+        break;
+      case 'tx bitrate':
+        info.transmitBitrate = parseFloat(value) * 1e6;
+        break;
+    }
+  }
+  if (info.signal !== undefined && Number.isNaN(info.signal)) delete info.signal;
+  if (info.frequency !== undefined && Number.isNaN(info.frequency)) delete info.frequency;
+  return completeChannel(info);
+}
+
+/**
+ * Parses the Wi-Fi networks listed by NetworkManager.
+ *
+ * @param output Output of nmcli -t -f IN-USE,SSID,BSSID,CHAN,FREQ,RATE,SIGNAL,SECURITY,DEVICE dev wifi list.
+ * @returns Visible networks, one entry per access point.
+ */
+export function parseNmcliWifiNetworks(output: string): WifiNetwork[] {
+  const networks: WifiNetwork[] = [];
+  for (const line of output.split('\n')) {
+    if (!line.trim()) continue;
+    const values: { [field: string]: string } = {};
+    splitNmcliLine(line).forEach((value, i) => (values[NMCLI_WIFI_FIELDS[i]] = value.trim()));
+    const network: WifiNetwork = { ssid: values.SSID ?? '', connected: values['IN-USE'] === '*' };
+    if (values.BSSID) network.bssid = values.BSSID.toLowerCase();
+    const channel = parseInt(values.CHAN, 10);
+    if (!Number.isNaN(channel)) network.channel = channel;
+    const frequency = parseInt(values.FREQ, 10); // e.g. "5180 MHz"
+    if (!Number.isNaN(frequency)) network.frequency = frequency;
+    const rate = parseFloat(values.RATE); // e.g. "540 Mbit/s"
+    if (!Number.isNaN(rate)) network.bitrate = rate * 1e6;
+    const quality = parseInt(values.SIGNAL, 10);
+    if (!Number.isNaN(quality)) {
+      network.quality = quality / 100;
+      network.signal = qualityToSignal(network.quality);
+    }
+    if (values.SECURITY !== undefined) network.security = values.SECURITY || 'Open';
+    if (values.DEVICE) network.interface = values.DEVICE;
+    networks.push(completeChannel(network));
+  }
+  return networks;
+}
+
+/**
+ * Parses the wireless interfaces of Windows.
+ *
+ * @param output Output of netsh wlan show interfaces.
+ * @returns Information about the connections keyed by interface name (e.g. Wi-Fi).
+ */
+export function parseNetshWlanInterfaces(output: string): { [nic: string]: WirelessInfo } {
+  const interfaces: { [nic: string]: WirelessInfo } = {};
+  let curr: WirelessInfo | null = null;
+  for (const line of output.split('\n')) {
+    const separator = line.indexOf(' : ');
+    if (separator < 0) continue;
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 3).trim();
+    if (key === 'name') {
+      curr = interfaces[value] = {};
+      continue;
+    }
+    if (!curr) continue;
+    switch (key) {
+      case 'ssid':
+        if (value) curr.ssid = value;
+        break;
+      case 'bssid':
+      case 'ap bssid':
+        curr.bssid = value.toLowerCase();
+        break;
+      case 'authentication':
+        curr.security = value;
+        break;
+      case 'band':
+        curr.band = (value.replace(/\s+/g, '') as WifiBand) || undefined; // e.g. "5 GHz"
+        break;
+      case 'channel':
+        curr.channel = parseInt(value, 10) || undefined;
+        break;
+      case 'receive rate (mbps)':
+        curr.receiveBitrate = parseFloat(value) * 1e6;
+        break;
+      case 'transmit rate (mbps)':
+        curr.transmitBitrate = parseFloat(value) * 1e6;
+        break;
+      case 'signal':
+        curr.quality = parseInt(value, 10) / 100; // e.g. "88%"
+        break;
+      case 'rssi':
+        curr.signal = parseInt(value, 10);
+        break;
+    }
+  }
+  for (const info of Object.values(interfaces)) {
+    for (const key of Object.keys(info) as (keyof WirelessInfo)[]) {
+      if (info[key] === undefined || Number.isNaN(info[key])) delete info[key];
+    }
+    if (info.signal === undefined && info.quality !== undefined && info.ssid)
+      info.signal = qualityToSignal(info.quality);
+    if (!info.ssid) delete info.quality; // disconnected interfaces report no signal
+    if (info.ssid) completeChannel(info);
+  }
+  return interfaces;
+}
+
+/**
+ * Parses the visible Wi-Fi networks of Windows.
+ *
+ * @param output Output of netsh wlan show networks mode=bssid.
+ * @returns Visible networks, one entry per access point.
+ */
+export function parseNetshWlanNetworks(output: string): WifiNetwork[] {
+  const networks: WifiNetwork[] = [];
+  let iface: string | undefined;
+  let ssid: string | null = null;
+  let security: string | undefined;
+  let curr: WifiNetwork | null = null;
+  for (const line of output.split('\n')) {
+    const separator = line.indexOf(' : ');
+    if (separator < 0) continue;
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 3).trim();
+    if (key === 'interface name') {
+      iface = value;
+    } else if (/^ssid \d+$/.test(key)) {
+      ssid = value;
+      security = undefined;
+      curr = null;
+    } else if (key === 'authentication') {
+      security = value;
+    } else if (/^bssid \d+$/.test(key) && ssid !== null) {
+      curr = { ssid, bssid: value.toLowerCase(), connected: false };
+      if (security) curr.security = security;
+      if (iface) curr.interface = iface;
+      networks.push(curr);
+    } else if (curr && key === 'signal') {
+      curr.quality = parseInt(value, 10) / 100;
+      curr.signal = qualityToSignal(curr.quality);
+    } else if (curr && key === 'band') {
+      curr.band = value.replace(/\s+/g, '') as WifiBand;
+    } else if (curr && key === 'channel') {
+      const channel = parseInt(value, 10);
+      if (!Number.isNaN(channel)) curr.channel = channel;
+    }
+  }
+  return networks.map((network) => completeChannel(network));
+}
+
+/**
+ * Returns details about the wireless interfaces and their connections.
+ * On Linux /proc/net/wireless, iw and nmcli (NetworkManager) are used, on Windows netsh. Other platforms return an empty object.
+ *
+ * @returns Wireless information keyed by interface name (disconnected interfaces have no SSID).
+ */
+export async function getWirelessInfo(): Promise<{ [nic: string]: WirelessInfo }> {
+  const interfaces: { [nic: string]: WirelessInfo } = {};
+  switch (process.platform) {
+    case 'linux': {
+      const nics = await fs.readdir('/sys/class/net').catch(() => [] as string[]);
+      const wirelessNics = (
+        await Promise.all(
+          nics.map((nic) =>
+            fs
+              .access('/sys/class/net/' + nic + '/wireless')
+              .then(() => nic)
+              .catch(() => null),
+          ),
+        )
+      ).filter((nic): nic is string => nic !== null);
+      if (wirelessNics.length === 0) break;
+
+      const [proc, networks, links] = await Promise.all([
+        fs
+          .readFile('/proc/net/wireless', 'utf8')
+          .then(parseProcNetWireless)
+          .catch(() => ({}) as { [nic: string]: WirelessInfo }),
+        execCommand('nmcli -t -f ' + NMCLI_WIFI_FIELDS.join(',') + ' dev wifi list --rescan no')
+          .then(parseNmcliWifiNetworks)
+          .catch(() => [] as WifiNetwork[]),
+        Promise.all(wirelessNics.map((nic) => execCommand('iw dev ' + nic + ' link').catch(() => ''))),
+      ]);
+      wirelessNics.forEach((nic, i) => {
+        const info: WirelessInfo = { ...proc[nic], ...parseIwLink(links[i]) };
+        // nmcli as fallback if iw is not installed and for the security of the network
+        const network = networks.find((n) => n.connected && n.interface === nic);
+        if (network) {
+          info.ssid = info.ssid ?? (network.ssid || undefined);
+          info.bssid = info.bssid ?? network.bssid;
+          info.channel = info.channel ?? network.channel;
+          info.frequency = info.frequency ?? network.frequency;
+          info.band = info.band ?? network.band;
+          info.security = network.security;
+          info.quality = info.quality ?? network.quality;
+        }
+        if (info.signal !== undefined && info.quality === undefined) info.quality = signalToQuality(info.signal);
+        for (const key of Object.keys(info) as (keyof WirelessInfo)[]) {
+          if (info[key] === undefined) delete info[key];
+        }
+        interfaces[nic] = info;
+      });
+      break;
+    }
+
+    case 'win32': {
+      const output = await execCommand('netsh wlan show interfaces').catch(() => '');
+      Object.assign(interfaces, parseNetshWlanInterfaces(output));
+      break;
+    }
+  }
+  return interfaces;
+}
+
+/**
+ * Lists the Wi-Fi networks that are currently visible.
+ * On Linux NetworkManager (nmcli) is required, on Windows netsh is used which may require the location permission.
+ * If scanning is not supported or not permitted, an empty array is returned.
+ *
+ * @returns Visible networks, one entry per access point ordered by descending signal quality.
+ */
+export async function scanWifiNetworks(): Promise<WifiNetwork[]> {
+  let networks: WifiNetwork[] = [];
+  switch (process.platform) {
+    case 'linux': {
+      const output = await execCommand('nmcli -t -f ' + NMCLI_WIFI_FIELDS.join(',') + ' dev wifi list').catch(() => '');
+      networks = parseNmcliWifiNetworks(output);
+      break;
+    }
+
+    case 'win32': {
+      const output = await execCommand('netsh wlan show networks mode=bssid').catch(() => '');
+      networks = parseNetshWlanNetworks(output);
+      const interfaces = await getWirelessInfo().catch(() => ({}) as { [nic: string]: WirelessInfo });
+      const connected = new Set(Object.values(interfaces).map((info) => info.bssid));
+      for (const network of networks) network.connected = connected.has(network.bssid);
+      break;
+    }
+  }
+  return networks.sort((a, b) => (b.quality ?? 0) - (a.quality ?? 0));
+}